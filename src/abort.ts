@@ -0,0 +1,42 @@
+import fs from 'fs';
+import type { SorterOptions } from './sorter';
+
+/**
+ * The error thrown when a sort is cancelled by its AbortSignal.
+ * It can be distinguished from the other errors with instanceof or with its name.
+ */
+export class AbortError extends Error {
+    readonly code = 'ABORT_ERR';
+
+    constructor(message = 'The sort was aborted') {
+        super(message);
+        this.name = 'AbortError';
+    }
+}
+
+/**
+ * Throws an AbortError if the signal has been aborted.
+ * @param signal the optional signal of the sort
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw new AbortError();
+    }
+}
+
+/**
+ * Deletes the files partially written by an aborted sort.
+ * @param options the options of the sort
+ */
+export function removePartialOutputs(options: SorterOptions): void {
+    const files = [options.distinct?.duplicates?.filename];
+    if (!options.output) {
+        files.push(options.destination.filename);
+    }
+    for (const filename of files) {
+        if (filename && fs.existsSync(filename)) {
+            options.logger(`Delete partial output ${filename}`);
+            fs.rmSync(filename);
+        }
+    }
+}
@@ -0,0 +1,34 @@
+import { getAggregateAlias, getAggregateType, toAggregateExpression } from './aggregate';
+import { Aggregate } from './sorter';
+
+describe('aggregate', () => {
+    describe('getAggregateAlias', () => {
+        test('should name the aggregates after their function and column', () => {
+            expect(getAggregateAlias({ function: 'count' })).toBe('count');
+            expect(getAggregateAlias({ function: 'sum', column: 'amount' })).toBe('sum_amount');
+            expect(getAggregateAlias({ function: 'count distinct', column: 'The Name' })).toBe('count_distinct_The Name');
+            expect(getAggregateAlias({ function: 'avg', column: 'amount', as: 'Average' })).toBe('Average');
+        });
+    });
+    describe('toAggregateExpression', () => {
+        test('should ignore the empty values', () => {
+            expect(toAggregateExpression({ function: 'count' })).toBe('count(*)');
+            expect(toAggregateExpression({ function: 'count', column: 'id' })).toBe(`count(nullif(id, ''))`);
+            expect(toAggregateExpression({ function: 'count distinct', column: 'The Name' })).toBe(`count(distinct nullif("The Name", ''))`);
+            expect(toAggregateExpression({ function: 'min', column: 'birthday' })).toBe(`min(nullif(birthday, ''))`);
+        });
+        test('should reject the invalid aggregates', () => {
+            expect(() => toAggregateExpression({ function: 'max' })).toThrow('The max aggregate requires a column!');
+            expect(() => toAggregateExpression({ function: 'total', column: 'id' } as unknown as Aggregate)).toThrow(`The aggregate function 'total' is not supported!`);
+        });
+    });
+    describe('getAggregateType', () => {
+        test('should keep the type of the min and max columns', () => {
+            const schema = [{ name: 'Birthday', type: 'date' as const }, { name: 'name' }];
+            expect(getAggregateType({ function: 'min', column: 'birthday' }, schema)).toBe('date');
+            expect(getAggregateType({ function: 'max', column: 'name' }, schema)).toBeUndefined();
+            expect(getAggregateType({ function: 'max', column: 'unknown' }, schema)).toBeUndefined();
+            expect(getAggregateType({ function: 'count distinct', column: 'name' }, schema)).toBe('number');
+        });
+    });
+});
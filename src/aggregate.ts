@@ -0,0 +1,48 @@
+import { sameColumnName, toColumnName } from './sql';
+import { ValidationError } from './validation';
+import type { Aggregate, ColumnName, ColumnType, SchemaColumn } from './sorter';
+
+const aggregateFunctions = ['count', 'sum', 'avg', 'min', 'max', 'count distinct'];
+
+/**
+ * Returns the name of an aggregate in the destination file, such as count or sum_amount when it has no alias.
+ * @param aggregate the aggregate
+ */
+export function getAggregateAlias(aggregate: Aggregate): ColumnName {
+    if (aggregate.as) {
+        return aggregate.as;
+    }
+    const name = aggregate.function.replace(' ', '_');
+    return aggregate.column === undefined ? name : `${name}_${aggregate.column}`;
+}
+
+/**
+ * Converts an aggregate to an SQL expression. Like the NULL values in SQL, the empty values are ignored,
+ * except by the count of the rows.
+ * @param aggregate the aggregate
+ */
+export function toAggregateExpression(aggregate: Aggregate): string {
+    if (!aggregateFunctions.includes(aggregate.function)) {
+        throw new ValidationError(`The aggregate function '${aggregate.function}' is not supported!`);
+    }
+    if (aggregate.column === undefined) {
+        if (aggregate.function !== 'count') {
+            throw new ValidationError(`The ${aggregate.function} aggregate requires a column!`);
+        }
+        return 'count(*)';
+    }
+    const value = `nullif(${toColumnName(aggregate.column)}, '')`;
+    return aggregate.function === 'count distinct' ? `count(distinct ${value})` : `${aggregate.function}(${value})`;
+}
+
+/**
+ * Returns the type of the values of an aggregate: the min and max have the type of their column, the other aggregates are numbers.
+ * @param aggregate the aggregate
+ * @param schema the columns of the schema
+ */
+export function getAggregateType(aggregate: Aggregate, schema: SchemaColumn[]): ColumnType | undefined {
+    if (aggregate.function === 'min' || aggregate.function === 'max') {
+        return schema.find(col => sameColumnName(col.name, aggregate.column))?.type;
+    }
+    return 'number';
+}
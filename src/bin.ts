@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+import { runCli } from './cli';
+
+const controller = new AbortController();
+// the first interrupt cancels the sort, so that the temporary files are deleted
+process.once('SIGINT', () => controller.abort());
+runCli(process.argv.slice(2), process, controller.signal).then(code => {
+    process.exitCode = code;
+});
@@ -0,0 +1,133 @@
+import fs from 'fs';
+import os from 'os';
+import { PassThrough, Readable } from 'stream';
+import { AbortError } from './abort';
+import { exitCodes, getExitCode, parseArguments, runCli, usage } from './cli';
+import { captureStdout } from './testing';
+import { ValidationError } from './validation';
+
+interface CliRun {
+    code: number;
+    stdout: string;
+    stderr: string;
+}
+
+async function run(args: string[], input = '', signal?: AbortSignal): Promise<CliRun> {
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    let out = '';
+    let err = '';
+    stdout.on('data', chunk => out += chunk.toString());
+    stderr.on('data', chunk => err += chunk.toString());
+    const code = await runCli(args, { stdin: Readable.from([input]), stdout, stderr }, signal);
+    return { code, stdout: out, stderr: err };
+}
+
+describe('cli', () => {
+    beforeAll(() => {
+        fs.mkdirSync('./output/files', { recursive: true });
+    });
+    describe('parseArguments', () => {
+        test('should parse the options of the sort', () => {
+            const options = parseArguments([
+                '--order-by', 'id:desc, code:ASC,name', '--select', 'id,name', '--where', 'age > 18', '--schema', 'id:integer,name,age:number',
+                '-d', '\\t', '--limit', '10', '--offset', '5', '-o', 'sorted.csv', '--keep-db', 'sort.sqlite', '--sqlite-cli', '/opt/sqlite3', '-v', 'a.tsv', 'b.tsv',
+            ]);
+            expect(options).toEqual({
+                source: ['a.tsv', 'b.tsv'],
+                destination: 'sorted.csv',
+                delimiter: '\t',
+                outputDelimiter: '\t',
+                orderBy: [{ name: 'id', sortDirection: 'DESC' }, { name: 'code', sortDirection: 'ASC' }, { name: 'name', sortDirection: 'ASC' }],
+                select: ['id', 'name'],
+                where: 'age > 18',
+                schema: [{ name: 'id', type: 'integer' }, { name: 'name' }, { name: 'age', type: 'number' }],
+                limit: 10,
+                offset: 5,
+                sqlite: { filename: 'sort.sqlite', keepDB: true, cli: '/opt/sqlite3' },
+                verbose: true,
+            });
+        });
+        test('should default to the standard input and a temporary database', () => {
+            const options = parseArguments(['--order-by', 'id', '--delimiter', 'auto', '--output-delimiter', ';', '--schema', 'infer', '--sqlite-cli', 'sqlite3']);
+            expect(options.source).toEqual(['-']);
+            expect(options.delimiter).toBe('auto');
+            expect(options.outputDelimiter).toBe(';');
+            expect(options.schema).toBe('infer');
+            expect(options.sqlite?.filename).toMatch(/huge-csv-sort-\d+-\d+\.sqlite$/);
+            expect(options.sqlite?.keepDB).toBe(false);
+            expect(parseArguments(['--order-by', 'id', '-d', 'auto', 'a.csv']).outputDelimiter).toBeUndefined();
+        });
+        test('should reject the invalid arguments', () => {
+            expect(() => parseArguments([])).toThrow('You must provide the --order-by option!');
+            expect(() => parseArguments(['--order-by', 'id:up'])).toThrow(`The sort direction of the column 'id' must be asc or desc!`);
+            expect(() => parseArguments(['--order-by', 'id', '--schema', 'id:long'])).toThrow(`The type of the column 'id' must be one of string, number, integer, real, date, datetime, boolean!`);
+            expect(() => parseArguments(['--order-by', 'id', '--limit', 'ten'])).toThrow('The limit option must be a positive integer!');
+            expect(() => parseArguments(['--order-by', 'id', '-', 'a.csv'])).toThrow('The standard input cannot be sorted with other sources!');
+            expect(() => parseArguments(['--order-by', 'id', '--unknown'])).toThrow(`Unknown option '--unknown'`);
+        });
+    });
+    describe('getExitCode', () => {
+        test('should distinguish the errors', () => {
+            expect(getExitCode(new AbortError())).toBe(exitCodes.aborted);
+            expect(getExitCode(new Error('SQLite error (Exit code = 1):\nParse error'))).toBe(exitCodes.sqlite);
+            expect(getExitCode(Object.assign(new Error('spawn sqlite4 ENOENT'), { code: 'ENOENT', syscall: 'spawn sqlite4' }))).toBe(exitCodes.sqlite);
+            expect(getExitCode(new ValidationError('You must provide the keys of the join!'))).toBe(exitCodes.invalid);
+            expect(getExitCode(new Error(`Line 2 of 'events.ndjson' is not a JSON object!`))).toBe(exitCodes.failure);
+            expect(getExitCode(Object.assign(new Error('EACCES: permission denied'), { code: 'EACCES', syscall: 'open' }))).toBe(exitCodes.failure);
+        });
+    });
+    describe('runCli', () => {
+        test('should display the help', async () => {
+            expect(await run(['--help'])).toEqual({ code: exitCodes.success, stdout: usage + '\n', stderr: '' });
+        });
+        test('should sort a file to the standard output', async () => {
+            const result = await run(['--order-by', 'age:desc', '--select', 'name,age', '--where', 'age > 3', '--schema', 'id:integer,name,age:integer', './tests/unordered-id.csv']);
+            expect(result).toEqual({ code: exitCodes.success, stdout: 'name,age\npaul,33\njohn,12\nsally,4\n', stderr: '' });
+        });
+        test('should sort to a standard output that is never ended', async () => {
+            const tempFiles = () => fs.readdirSync(os.tmpdir()).filter(name => name.startsWith(`huge-csv-sorter-${process.pid}-`));
+            const existing = tempFiles();
+            const args = ['--order-by', 'id', '--limit', '2', './tests/unordered-id.csv'];
+            const { result: code, text } = await captureStdout(() => runCli(args, { stdin: process.stdin, stdout: process.stdout, stderr: new PassThrough() }));
+            expect(code).toBe(exitCodes.success);
+            expect(text).toBe('id,name,age\n1,john,12\n2,sarah,1\n');
+            // the temporary database is deleted once the rows are written
+            expect(tempFiles()).toEqual(existing);
+        });
+        test('should sort the standard input to a file', async () => {
+            const input = fs.readFileSync('./tests/unordered-id.tsv', 'utf8');
+            const result = await run(['--order-by', 'id', '-d', '\\t', '--output-delimiter', ',', '--limit', '2', '--offset', '1', '-o', './output/files/cli-stdin.sorted.csv', '-v', '-'], input);
+            expect(result.code).toBe(exitCodes.success);
+            expect(result.stdout).toBe('');
+            expect(result.stderr).toContain('.import');
+            expect(fs.readFileSync('./output/files/cli-stdin.sorted.csv', 'utf8')).toBe('id,name,age\n2,sarah,1\n3,mary,2\n');
+        });
+        test('should sort several files to a file and keep the database', async () => {
+            fs.rmSync('./output/files/cli-parts.sqlite', { force: true });
+            const result = await run(['--order-by', 'id', '--keep-db', './output/files/cli-parts.sqlite', '-o', './output/files/cli-parts.sorted.csv', './tests/parts/part-0001.csv', './tests/parts/part-0002.csv']);
+            expect(result.code).toBe(exitCodes.success);
+            expect(fs.readFileSync('./output/files/cli-parts.sorted.csv', 'utf8')).toBe('id,name,age\n1,john,12\n3,mary,2\n5,sally,4\n7,paul,33\n');
+            expect(fs.existsSync('./output/files/cli-parts.sqlite')).toBe(true);
+        });
+        test('should exit with a validation error', async () => {
+            expect(await run(['--order-by', 'id', './tests/missing.csv'])).toEqual({
+                code: exitCodes.invalid,
+                stdout: '',
+                stderr: `huge-csv-sort: File './tests/missing.csv' does not exist!\n`,
+            });
+            expect((await run(['--bad'])).code).toBe(exitCodes.invalid);
+        });
+        test('should exit with a SQLite error', async () => {
+            const result = await run(['--order-by', 'id', '--sqlite-cli', 'false', './tests/unordered-id.csv']);
+            expect(result.code).toBe(exitCodes.sqlite);
+            expect(result.stderr).toContain('huge-csv-sort: SQLite error (Exit code = 1)');
+            expect((await run(['--order-by', 'id', '--sqlite-cli', './output/files/missing-sqlite3', './tests/unordered-id.csv'])).code).toBe(exitCodes.sqlite);
+        });
+        test('should exit when interrupted', async () => {
+            const controller = new AbortController();
+            controller.abort();
+            expect((await run(['--order-by', 'id', './tests/unordered-id.csv'], '', controller.signal)).code).toBe(exitCodes.aborted);
+        });
+    });
+});
@@ -0,0 +1,245 @@
+import os from 'os';
+import path from 'path';
+import { Readable, Writable } from 'stream';
+import { parseArgs } from 'util';
+import { AbortError } from './abort';
+import { createFileWriteStream } from './compression';
+import { ColumnType, SchemaColumn, sort, SortedColumn, SortOptions, SortResult, sortStream, sortToStream } from './sorter';
+import { ValidationError } from './validation';
+
+/**
+ * The exit codes of the command line tool
+ */
+export const exitCodes = {
+    /**
+     * The sort succeeded
+     */
+    success: 0,
+    /**
+     * The sort failed with an unexpected error, such as an I/O error
+     */
+    failure: 1,
+    /**
+     * The arguments or the options of the sort are invalid
+     */
+    invalid: 2,
+    /**
+     * The SQLite command failed or could not be started
+     */
+    sqlite: 3,
+    /**
+     * The sort was interrupted
+     */
+    aborted: 130,
+};
+
+/**
+ * The standard streams used by the command line tool
+ */
+export interface CliStreams {
+    stdin: Readable;
+    stdout: Writable;
+    stderr: Writable;
+}
+
+/**
+ * The options of the sort parsed from the command line, the stdin source being the '-' filename
+ */
+export interface CliOptions extends Omit<SortOptions, 'source' | 'destination' | 'logger'> {
+    source: string[];
+    destination?: string;
+    delimiter?: string;
+    outputDelimiter?: string;
+    verbose?: boolean;
+    help?: boolean;
+}
+
+export const usage = `Usage: huge-csv-sort [options] [source...]
+
+Sorts the CSV source files, or the standard input when the source is - or missing,
+and writes the sorted rows to the output file or to the standard output.
+
+Options:
+  --order-by <columns>        the sorted columns, such as id:desc,code (required)
+  --select <columns>          the columns of the output, such as id,name
+  --where <condition>         the SQL condition filtering the rows, such as "age > 18"
+  --schema <columns>          the columns of the sources with their types, such as id:integer,name, or infer
+  -d, --delimiter <char>      the delimiter of the sources, \\t for a tab or auto for detecting it (default: ,)
+  --output-delimiter <char>   the delimiter of the output (default: the delimiter of the sources)
+  -o, --output <file>         the output file (default: the standard output)
+  --limit <count>             the maximum number of rows to output
+  --offset <count>            the number of rows to skip, with the limit option
+  --keep-db <file>            keeps the temporary SQLite database in the file
+  --sqlite-cli <path>         the SQLite command tool (default: sqlite3)
+  -v, --verbose               logs the commands sent to SQLite to the standard error
+  -h, --help                  displays this help
+
+Exit codes: 0 on success, 1 on an unexpected error, 2 on invalid arguments or options, 3 on a SQLite error, 130 when interrupted.`;
+
+const columnTypes: ColumnType[] = ['string', 'number', 'integer', 'real', 'date', 'datetime', 'boolean'];
+
+function splitList(value: string): string[] {
+    return value.split(',').map(item => item.trim()).filter(item => item !== '');
+}
+
+function parseOrderBy(value: string): SortedColumn[] {
+    return splitList(value).map(item => {
+        const [name, direction = 'asc'] = item.split(':');
+        if (direction.toLowerCase() !== 'asc' && direction.toLowerCase() !== 'desc') {
+            throw new ValidationError(`The sort direction of the column '${name}' must be asc or desc!`);
+        }
+        return { name, sortDirection: direction.toUpperCase() as 'ASC' | 'DESC' };
+    });
+}
+
+function parseSchema(value: string): SchemaColumn[] | 'infer' {
+    if (value === 'infer') {
+        return 'infer';
+    }
+    return splitList(value).map(item => {
+        const [name, type] = item.split(':');
+        if (type === undefined) {
+            return { name };
+        }
+        if (!columnTypes.includes(type as ColumnType)) {
+            throw new ValidationError(`The type of the column '${name}' must be one of ${columnTypes.join(', ')}!`);
+        }
+        return { name, type: type as ColumnType };
+    });
+}
+
+function parseCount(value: string | undefined, name: string): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (!/^\d+$/.test(value)) {
+        throw new ValidationError(`The ${name} option must be a positive integer!`);
+    }
+    return Number(value);
+}
+
+function parseDelimiter(value: string | undefined): string | undefined {
+    // a tab is hard to type in a shell
+    return value === '\\t' ? '\t' : value;
+}
+
+function parseCommandLine(args: string[]) {
+    try {
+        return parseArgs({
+            args,
+            allowPositionals: true,
+            options: {
+                'order-by': { type: 'string' },
+                'select': { type: 'string' },
+                'where': { type: 'string' },
+                'schema': { type: 'string' },
+                'delimiter': { type: 'string', short: 'd' },
+                'output-delimiter': { type: 'string' },
+                'output': { type: 'string', short: 'o' },
+                'limit': { type: 'string' },
+                'offset': { type: 'string' },
+                'keep-db': { type: 'string' },
+                'sqlite-cli': { type: 'string' },
+                'verbose': { type: 'boolean', short: 'v' },
+                'help': { type: 'boolean', short: 'h' },
+            },
+        });
+    } catch (err) {
+        // the unknown options and the missing values are invalid arguments
+        throw new ValidationError((err as Error).message);
+    }
+}
+
+/**
+ * Parses the arguments of the command line into the options of the sort.
+ * @param args the arguments, without the node executable and the script
+ */
+export function parseArguments(args: string[]): CliOptions {
+    const { values, positionals } = parseCommandLine(args);
+    const source = positionals.length > 0 ? positionals : ['-'];
+    if (values.help) {
+        return { source, orderBy: [], help: true };
+    }
+    if (!values['order-by']) {
+        throw new ValidationError('You must provide the --order-by option!');
+    }
+    if (source.includes('-') && source.length > 1) {
+        throw new ValidationError('The standard input cannot be sorted with other sources!');
+    }
+    const keepDB = values['keep-db'];
+    const cli = values['sqlite-cli'];
+    const delimiter = parseDelimiter(values.delimiter);
+    return {
+        source,
+        destination: values.output,
+        delimiter,
+        outputDelimiter: parseDelimiter(values['output-delimiter']) ?? (delimiter !== 'auto' ? delimiter : undefined),
+        orderBy: parseOrderBy(values['order-by']),
+        select: values.select !== undefined ? splitList(values.select) : undefined,
+        where: values.where,
+        schema: values.schema !== undefined ? parseSchema(values.schema) : undefined,
+        limit: parseCount(values.limit, 'limit'),
+        offset: parseCount(values.offset, 'offset'),
+        sqlite: keepDB !== undefined || cli !== undefined ? {
+            filename: keepDB ?? path.join(os.tmpdir(), `huge-csv-sort-${process.pid}-${Date.now()}.sqlite`),
+            keepDB: keepDB !== undefined,
+            cli,
+        } : undefined,
+        verbose: values.verbose,
+    };
+}
+
+/**
+ * Returns the exit code of a failed sort.
+ * @param err the error of the sort
+ */
+export function getExitCode(err: unknown): number {
+    if (err instanceof AbortError) {
+        return exitCodes.aborted;
+    }
+    if (err instanceof ValidationError) {
+        return exitCodes.invalid;
+    }
+    const error = err as NodeJS.ErrnoException;
+    if (error.message?.startsWith('SQLite error') || error.syscall?.startsWith('spawn')) {
+        return exitCodes.sqlite;
+    }
+    return exitCodes.failure;
+}
+
+function executeSort(options: CliOptions, streams: CliStreams, signal?: AbortSignal): Promise<SortResult> {
+    const { source, destination, delimiter, outputDelimiter, verbose, help: _help, ...otherOptions } = options;
+    // the logs are written to the standard error, since the standard output may receive the rows
+    const sortOptions = { ...otherOptions, logger: verbose ? (message: string) => { streams.stderr.write(message + '\n'); } : undefined, signal };
+    if (source[0] === '-') {
+        const output = destination ? createFileWriteStream({ filename: destination }) : streams.stdout;
+        return sortStream({ ...sortOptions, input: { stream: streams.stdin, delimiter }, output: { stream: output, delimiter: outputDelimiter } });
+    }
+    const sources = source.map(filename => ({ filename, delimiter }));
+    if (destination) {
+        return sort({ ...sortOptions, source: sources, destination: { filename: destination, delimiter: outputDelimiter } });
+    }
+    return sortToStream({ ...sortOptions, source: sources, output: { stream: streams.stdout, delimiter: outputDelimiter } });
+}
+
+/**
+ * Runs the command line tool.
+ * @param args the arguments, without the node executable and the script
+ * @param streams the standard streams
+ * @param signal the signal interrupting the sort
+ * @returns the exit code
+ */
+export async function runCli(args: string[], streams: CliStreams, signal?: AbortSignal): Promise<number> {
+    try {
+        const options = parseArguments(args);
+        if (options.help) {
+            streams.stdout.write(usage + '\n');
+            return exitCodes.success;
+        }
+        await executeSort(options, streams, signal);
+        return exitCodes.success;
+    } catch (err) {
+        streams.stderr.write(`huge-csv-sort: ${(err as Error).message}\n`);
+        return getExitCode(err);
+    }
+}
@@ -0,0 +1,46 @@
+import { createSortKeys, localeKey, naturalKey } from './collation';
+import { SorterOptions } from './sorter';
+
+describe('collation', () => {
+    describe('naturalKey', () => {
+        test('should sort the numbers by their value', () => {
+            const values = ['file10.txt', 'file2.txt', 'file1.txt', 'file002.txt', 'file', 'file0', 'v1.10', 'v1.9'];
+            values.sort((a, b) => naturalKey(a) < naturalKey(b) ? -1 : naturalKey(a) > naturalKey(b) ? 1 : 0);
+            expect(values).toEqual(['file', 'file0', 'file1.txt', 'file2.txt', 'file002.txt', 'file10.txt', 'v1.9', 'v1.10']);
+        });
+        test('should keep the texts without numbers', () => {
+            expect(naturalKey('')).toBe('');
+            expect(naturalKey('abc')).toBe('abc');
+            expect(naturalKey('a007')).toBe('a00017');
+        });
+    });
+    describe('localeKey', () => {
+        test('should compare the texts regardless of their accents and case first', () => {
+            const values = ['zoé', 'Emile', 'émile', 'Zoe', 'adam', 'Adam', ''];
+            values.sort((a, b) => localeKey(a) < localeKey(b) ? -1 : localeKey(a) > localeKey(b) ? 1 : 0);
+            expect(values).toEqual(['', 'Adam', 'adam', 'Emile', 'émile', 'Zoe', 'zoé']);
+        });
+        test('should use the locale for converting to lower case', () => {
+            expect(localeKey('I', 'tr')).toBe('ı\u0001I');
+            expect(localeKey('I', 'en')).toBe('i\u0001I');
+        });
+    });
+    describe('createSortKeys', () => {
+        const options = (orderBy: SorterOptions['orderBy']) => ({
+            schema: [{ name: 'id' }, { name: 'File' }],
+            orderBy,
+        }) as SorterOptions;
+        test('should create the keys of the natural and locale collations', () => {
+            const keys = createSortKeys(options([{ name: 'id', collation: 'nocase' }, { name: 'file', collation: 'natural' }, { name: 'id', collation: 'locale', locale: 'tr' }]));
+            expect(keys.map(({ name, column, orderIndex }) => ({ name, column, orderIndex }))).toEqual([
+                { name: 'file:natural', column: 1, orderIndex: 1 },
+                { name: 'id:locale', column: 0, orderIndex: 2 },
+            ]);
+            expect(keys[0].generate('f12')).toBe('f000212');
+            expect(keys[1].generate('I')).toBe('ı\u0001I');
+        });
+        test('should fail for an unknown column', () => {
+            expect(() => createSortKeys(options([{ name: 'name', collation: 'natural' }]))).toThrow('no such column: name');
+        });
+    });
+});
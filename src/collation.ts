@@ -0,0 +1,83 @@
+import { sameColumnName } from './sql';
+import { ValidationError } from './validation';
+import type { ColumnName, SortedColumn, SorterOptions } from './sorter';
+
+/**
+ * A hidden column holding the sort key of a column ordered with the natural or locale collation,
+ * since SQLite only supports the binary and nocase collations.
+ */
+export interface SortKey {
+    /**
+     * The name of the hidden column
+     */
+    name: ColumnName;
+    /**
+     * The position of the sorted column in the schema
+     */
+    column: number;
+    /**
+     * The position of the column in the orderBy option
+     */
+    orderIndex: number;
+    /**
+     * Computes the sort key of a value
+     */
+    generate: (value: string) => string;
+}
+
+/**
+ * Indicates whether a sorted column requires a hidden column holding its sort key.
+ */
+export function hasSortKey(col: SortedColumn): boolean {
+    return col.collation === 'natural' || col.collation === 'locale';
+}
+
+/**
+ * Computes a key sorting the numbers contained in a text by their value, such as file2 before file10.
+ * Each sequence of digits is prefixed with its length, once its leading zeros are removed.
+ * @param value the text to convert
+ */
+export function naturalKey(value: string): string {
+    return value.replace(/\d+/g, digits => {
+        const significant = digits.replace(/^0+(?=\d)/, '');
+        return String(significant.length).padStart(4, '0') + significant;
+    });
+}
+
+/**
+ * Computes a key sorting the texts regardless of their accents and case first, and then by their value.
+ * @param value the text to convert
+ * @param locale the locale used for converting the letters to lower case
+ */
+export function localeKey(value: string, locale?: string): string {
+    if (value === '') {
+        return value;
+    }
+    const base = value.normalize('NFD').replace(/\p{M}/gu, '').toLocaleLowerCase(locale);
+    return `${base}\u0001${value}`;
+}
+
+/**
+ * Creates the hidden columns holding the sort keys of the columns ordered with the natural or locale collation.
+ * @param options the options of the sort, with a schema
+ */
+export function createSortKeys(options: SorterOptions): SortKey[] {
+    const keys: SortKey[] = [];
+    options.orderBy.forEach((col, orderIndex) => {
+        if (!hasSortKey(col)) {
+            return;
+        }
+        const column = options.schema.findIndex(schemaCol => sameColumnName(schemaCol.name, col.name));
+        if (column < 0) {
+            throw new ValidationError(`no such column: ${col.name}`);
+        }
+        const locale = col.locale;
+        keys.push({
+            name: `${col.name}:${col.collation}`,
+            column,
+            orderIndex,
+            generate: col.collation === 'natural' ? naturalKey : value => localeKey(value, locale),
+        });
+    });
+    return keys;
+}
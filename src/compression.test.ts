@@ -0,0 +1,85 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import { pipeline } from 'stream/promises';
+import { Readable } from 'stream';
+import { createFileReadStream, createFileWriteStream, getCompression, isCompressed, readFileChunksSync } from './compression';
+
+async function readAll(stream: Readable): Promise<string> {
+    let text = '';
+    for await (const chunk of stream) {
+        text += chunk.toString();
+    }
+    return text;
+}
+
+describe('compression', () => {
+    const text = 'id,name\n' + Array.from({ length: 20000 }, (_value, i) => `${i},name ${i}`).join('\n') + '\n';
+    beforeAll(() => {
+        fs.rmSync('./output/compression', { recursive: true, force: true });
+        fs.mkdirSync('./output/compression', { recursive: true });
+        fs.writeFileSync('./output/compression/data.csv', text);
+        fs.writeFileSync('./output/compression/data.csv.gz', zlib.gzipSync(text));
+        fs.writeFileSync('./output/compression/data.csv.br', zlib.brotliCompressSync(text));
+        fs.writeFileSync('./output/compression/data.gzip', zlib.gzipSync(text));
+    });
+    describe('getCompression', () => {
+        test('should detect the compression from the extension', () => {
+            expect(getCompression({ filename: 'huge.csv' })).toBe('none');
+            expect(getCompression({ filename: 'huge.csv.gz' })).toBe('gzip');
+            expect(getCompression({ filename: './archives/HUGE.CSV.GZ' })).toBe('gzip');
+            expect(getCompression({ filename: 'huge.csv.br' })).toBe('brotli');
+            expect(getCompression({ filename: './archive.gz/huge' })).toBe('none');
+            expect(isCompressed({ filename: 'huge.csv.gz' })).toBe(true);
+            expect(isCompressed({ filename: 'huge.csv' })).toBe(false);
+        });
+        test('should prefer the compression of the options', () => {
+            expect(getCompression({ filename: 'huge.gzip', compression: 'gzip' })).toBe('gzip');
+            expect(getCompression({ filename: 'huge.csv.gz', compression: 'none' })).toBe('none');
+        });
+    });
+    describe('createFileReadStream', () => {
+        test('should decompress the files as they are read', async () => {
+            expect(await readAll(createFileReadStream({ filename: './output/compression/data.csv' }))).toBe(text);
+            expect(await readAll(createFileReadStream({ filename: './output/compression/data.csv.gz' }))).toBe(text);
+            expect(await readAll(createFileReadStream({ filename: './output/compression/data.csv.br' }))).toBe(text);
+            expect(await readAll(createFileReadStream({ filename: './output/compression/data.gzip', compression: 'gzip' }))).toBe(text);
+        });
+        test('should report the corrupted and missing files', async () => {
+            await expect(readAll(createFileReadStream({ filename: './output/compression/data.csv', compression: 'gzip' }))).rejects.toThrow('incorrect header check');
+            await expect(readAll(createFileReadStream({ filename: './output/compression/missing.csv.gz' }))).rejects.toThrow('ENOENT');
+        });
+    });
+    describe('readFileChunksSync', () => {
+        test('should read the beginning of the files', () => {
+            for (const filename of ['./output/compression/data.csv', './output/compression/data.csv.gz', './output/compression/data.csv.br']) {
+                const [first] = readFileChunksSync({ filename });
+                expect(text.startsWith(first.toString())).toBe(true);
+                expect(first.length).toBeGreaterThan(0);
+            }
+        });
+        test('should read all the chunks of the files', () => {
+            for (const filename of ['./output/compression/data.csv', './output/compression/data.csv.gz', './output/compression/data.csv.br']) {
+                const chunks = [...readFileChunksSync({ filename })];
+                expect(Buffer.concat(chunks).toString()).toBe(text);
+            }
+        });
+    });
+    describe('createFileWriteStream', () => {
+        test('should compress the files as they are written', async () => {
+            for (const filename of ['./output/compression/out.csv', './output/compression/out.csv.gz', './output/compression/out.csv.br']) {
+                await pipeline(Readable.from([text.substring(0, 1000), text.substring(1000)]), createFileWriteStream({ filename }));
+                expect(await readAll(createFileReadStream({ filename }))).toBe(text);
+            }
+            expect(zlib.gunzipSync(fs.readFileSync('./output/compression/out.csv.gz')).toString()).toBe(text);
+        });
+        test('should append a member to a gzip file', async () => {
+            const filename = './output/compression/append.csv.gz';
+            await pipeline(Readable.from(['id\n1\n']), createFileWriteStream({ filename }));
+            await pipeline(Readable.from(['2\n']), createFileWriteStream({ filename }, 'a'));
+            expect(zlib.gunzipSync(fs.readFileSync(filename)).toString()).toBe('id\n1\n2\n');
+        });
+        test('should report the errors of the file', async () => {
+            await expect(pipeline(Readable.from(['id\n']), createFileWriteStream({ filename: './output/should-not-exist/out.csv.gz' }))).rejects.toThrow('ENOENT');
+        });
+    });
+});
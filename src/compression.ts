@@ -0,0 +1,138 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import { pipeline, Readable, Transform, Writable } from 'stream';
+import { finished } from 'stream/promises';
+import { EncodedWriter, isEncoded } from './encoding';
+import type { Compression, FileOptions } from './sorter';
+
+const extensions: Record<string, Compression> = {
+    '.gz': 'gzip',
+    '.br': 'brotli',
+};
+
+/**
+ * Returns the compression of a file, either set by its options or detected from its extension.
+ * @param file the options of the file
+ */
+export function getCompression(file: FileOptions): Compression {
+    if (file.compression) {
+        return file.compression;
+    }
+    const extension = /\.[^./\\]+$/.exec(file.filename)?.[0].toLowerCase() ?? '';
+    return extensions[extension] ?? 'none';
+}
+
+/**
+ * Indicates whether a file is compressed.
+ * @param file the options of the file
+ */
+export function isCompressed(file: FileOptions): boolean {
+    return getCompression(file) !== 'none';
+}
+
+function createDecompressor(compression: Compression): Transform {
+    return compression === 'gzip' ? zlib.createGunzip() : zlib.createBrotliDecompress();
+}
+
+function createCompressor(compression: Compression): Transform {
+    return compression === 'gzip' ? zlib.createGzip() : zlib.createBrotliCompress();
+}
+
+/**
+ * Opens a file for reading, the data being decompressed as it is read when the file is compressed.
+ * @param file the options of the file
+ */
+export function createFileReadStream(file: FileOptions): Readable {
+    const input = fs.createReadStream(file.filename);
+    const compression = getCompression(file);
+    if (compression === 'none') {
+        return input;
+    }
+    const decompressor = createDecompressor(compression);
+    input.on('error', err => decompressor.destroy(err));
+    decompressor.on('close', () => input.destroy());
+    return input.pipe(decompressor);
+}
+
+/**
+ * Reads the beginning of a file synchronously, by chunks of decompressed data.
+ * The compressed data read so far is decompressed again for each chunk, since zlib has no synchronous stream,
+ * so it should only be used for reading the first records.
+ * @param file the options of the file
+ */
+export function* readFileChunksSync(file: FileOptions): Generator<Buffer> {
+    const compression = getCompression(file);
+    const buffer = Buffer.alloc(64 * 1024);
+    const fd = fs.openSync(file.filename, 'r');
+    try {
+        let compressed = Buffer.alloc(0);
+        let decompressedLength = 0;
+        for (;;) {
+            const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null);
+            if (bytesRead === 0) {
+                return;
+            }
+            if (compression === 'none') {
+                yield Buffer.from(buffer.subarray(0, bytesRead));
+                continue;
+            }
+            compressed = Buffer.concat([compressed, buffer.subarray(0, bytesRead)]);
+            // the flush mode accepts the truncated data and returns what can be decompressed so far
+            const data = compression === 'gzip'
+                ? zlib.gunzipSync(compressed, { finishFlush: zlib.constants.Z_SYNC_FLUSH })
+                : zlib.brotliDecompressSync(compressed, { finishFlush: zlib.constants.BROTLI_OPERATION_FLUSH });
+            yield data.subarray(decompressedLength);
+            decompressedLength = data.length;
+        }
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+/**
+ * A writable stream compressing the data into a file.
+ * It finishes once the file is closed.
+ */
+class CompressedFileWriter extends Writable {
+    private compressor: Transform;
+    private output: fs.WriteStream;
+
+    constructor(filename: string, compression: Compression, flags: string) {
+        super();
+        this.compressor = createCompressor(compression);
+        this.output = fs.createWriteStream(filename, { flags });
+        pipeline(this.compressor, this.output, err => {
+            if (err) {
+                this.destroy(err);
+            }
+        });
+    }
+
+    override _write(chunk: Buffer, encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+        this.compressor.write(chunk, encoding, callback);
+    }
+
+    override _final(callback: (error?: Error | null) => void): void {
+        this.compressor.end();
+        finished(this.output).then(() => callback(), callback);
+    }
+
+    override _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+        this.compressor.destroy();
+        this.output.destroy();
+        callback(error);
+    }
+}
+
+/**
+ * Opens a file for writing, the data being encoded and compressed as it is written when the file is encoded or compressed.
+ * The byte order mark is only written when the file is created.
+ * Note that the compressed data appended to a gzip file is a new member of the file, which is read as the continuation of the data.
+ * @param file the options of the file
+ * @param flags the flags of the file, 'w' for creating it and 'a' for appending data
+ */
+export function createFileWriteStream(file: FileOptions, flags: 'w' | 'a' = 'w'): Writable {
+    const compression = getCompression(file);
+    const output = compression === 'none' ? fs.createWriteStream(file.filename, { flags }) : new CompressedFileWriter(file.filename, compression, flags);
+    return isEncoded(file) ? new EncodedWriter(output, file.encoding ?? 'utf8', file.bom === true && flags === 'w') : output;
+}
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import { createRecordParser, CsvParser, getRecordText, readFirstRecords, readHeader } from './csv';
+
+describe('csv', () => {
+    beforeAll(() => {
+        if(!fs.existsSync('./output')) {
+            fs.mkdirSync('./output');
+        }
+        if(!fs.existsSync('./output/files')) {
+            fs.mkdirSync('./output/files');
+        }
+    });
+    describe('CsvParser', () => {
+        test('should parse simple records', () => {
+            const parser = new CsvParser();
+            expect(parser.push('id,name\n1,john\n2,')).toEqual([
+                ['id', 'name'],
+                ['1', 'john'],
+            ]);
+            expect(parser.push('mary\n')).toEqual([
+                ['2', 'mary'],
+            ]);
+            expect(parser.flush()).toEqual([]);
+        });
+        test('should parse quoted fields split across chunks', () => {
+            const parser = new CsvParser();
+            expect(parser.push('"a ""b""","c\n')).toEqual([]);
+            expect(parser.push('d",e"f\r\n"g"')).toEqual([
+                ['a "b"', 'c\nd', 'e"f'],
+            ]);
+            expect(parser.push('"')).toEqual([]);
+            expect(parser.flush()).toEqual([
+                ['g"'],
+            ]);
+        });
+        test('should support a custom delimiter and CRLF line endings', () => {
+            const parser = new CsvParser('|');
+            expect(parser.push('a|b\r\n1|"2"\r\n')).toEqual([
+                ['a', 'b'],
+                ['1', '2'],
+            ]);
+        });
+        test('should keep the source text of the records', () => {
+            const parser = new CsvParser(',', '"', true);
+            const records = [...parser.push('id,name\r\n1, "a\nb" \n2'), ...parser.push(',"c""d"'), ...parser.flush()];
+            expect(records).toEqual([['id', 'name'], ['1', ' "a'], ['b" '], ['2', 'c"d']]);
+            expect(records.map(getRecordText)).toEqual(['id,name', '1, "a', 'b" ', '2,"c""d"']);
+            const quoted = new CsvParser(',', '"', true).push('1,"a\nb"\n');
+            expect(quoted.map(getRecordText)).toEqual(['1,"a\nb"']);
+            expect(new CsvParser().push('1,a\n').map(getRecordText)).toEqual([undefined]);
+        });
+    });
+    describe('createRecordParser', () => {
+        test('should return the columns before the records of a file without header', () => {
+            const parser = createRecordParser({ filename: 'no-header.csv', hasHeader: false }, ['id', 'name']);
+            expect(parser.push('1,a\n2')).toEqual([['id', 'name'], ['1', 'a']]);
+            expect(parser.flush()).toEqual([['2']]);
+        });
+    });
+    describe('readFirstRecords', () => {
+        test('should only read the requested records', () => {
+            expect(readFirstRecords({ filename: './tests/unordered-id.csv' }, 2)).toEqual([
+                ['id', 'name', 'age'],
+                ['1', 'john', '12'],
+            ]);
+        });
+        test('should stop at the end of the file', () => {
+            fs.writeFileSync('./output/files/no-newline.csv', 'a,b\n1,2');
+            expect(readFirstRecords({ filename: './output/files/no-newline.csv' }, 10)).toEqual([
+                ['a', 'b'],
+                ['1', '2'],
+            ]);
+        });
+        test('should read the records of an ndjson file', () => {
+            expect(readFirstRecords({ filename: './tests/unordered-events.ndjson', format: 'ndjson' }, 2)).toEqual([
+                ['id', 'type', 'user.id', 'user.name', 'tags', 'amount', 'user.address.city', 'paid'],
+                ['3', 'click', 'u2', 'Bob', '["a","b"]', '12.5', '', ''],
+            ]);
+        });
+    });
+    describe('readHeader', () => {
+        test('should read the column names', () => {
+            expect(readHeader({ filename: './tests/unordered-id.psv', delimiter: '|' })).toEqual(['id', 'name', 'age']);
+        });
+        test('should generate the column names of a file without header', () => {
+            expect(readHeader({ filename: './tests/unordered-id-no-header.csv', hasHeader: false })).toEqual(['col1', 'col2', 'col3']);
+            expect(readFirstRecords({ filename: './tests/unordered-id-no-header.csv', hasHeader: false }, 2)).toEqual([
+                ['col1', 'col2', 'col3'],
+                ['1', 'john', '12'],
+            ]);
+        });
+        test('should return no column for an empty file', () => {
+            fs.writeFileSync('./output/files/empty.csv', '');
+            expect(readHeader({ filename: './output/files/empty.csv' })).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,244 @@
+import { readFileChunksSync } from './compression';
+import { detectByteOrderMark, SourceDecoder } from './encoding';
+import { MalformedLineHandler, NdjsonParser, readNdjsonColumns } from './ndjson';
+import type { FileEncoding, FileOptions } from './sorter';
+
+/**
+ * A parsed CSV record, as a list of raw field values
+ */
+export type CsvRecord = string[];
+
+// the source text of the records parsed with keepText, without their line ending
+const recordTexts = new WeakMap<CsvRecord, string>();
+
+/**
+ * Returns the source text of a record, without its line ending, when it was parsed by a CsvParser keeping the text.
+ * @param record the parsed record
+ */
+export function getRecordText(record: CsvRecord): string | undefined {
+    return recordTexts.get(record);
+}
+
+/**
+ * An incremental CSV parser that accepts chunks of text and returns the completed records.
+ * It follows the same rules as the SQLite CSV importer: fields can be enclosed in double quotes,
+ * a double quote is escaped by doubling it and CRLF line endings are accepted.
+ * When keepText is set, the source text of each record is kept, see getRecordText.
+ */
+export class CsvParser {
+    private records: CsvRecord[] = [];
+    private record: CsvRecord = [];
+    private field = '';
+    private fieldStarted = false;
+    private inQuotes = false;
+    private quoteSeen = false;
+    private text = '';
+
+    constructor(readonly delimiter: string = ',', readonly quote: string = '"', readonly keepText = false) {
+    }
+
+    push(chunk: string): CsvRecord[] {
+        let start = 0;
+        for (let i = 0; i < chunk.length; i++) {
+            const c = chunk.charAt(i);
+            this.consume(c);
+            // a record ends with a line feed outside of the quotes
+            if (this.keepText && c === '\n' && !this.inQuotes) {
+                this.keepRecordText(this.text + chunk.substring(start, i + 1));
+                start = i + 1;
+            }
+        }
+        if (this.keepText) {
+            this.text += chunk.substring(start);
+        }
+        return this.takeRecords();
+    }
+
+    flush(): CsvRecord[] {
+        if (this.fieldStarted || this.record.length > 0) {
+            this.endRecord();
+            if (this.keepText) {
+                this.keepRecordText(this.text);
+            }
+        }
+        return this.takeRecords();
+    }
+
+    private keepRecordText(text: string) {
+        recordTexts.set(this.records[this.records.length - 1], text.replace(/\r?\n$/, ''));
+        this.text = '';
+    }
+
+    private consume(c: string) {
+        if (this.inQuotes) {
+            if (this.quoteSeen) {
+                this.quoteSeen = false;
+                if (c === this.quote) {
+                    this.field += c;
+                    return;
+                }
+                this.inQuotes = false;
+            } else {
+                if (c === this.quote) {
+                    this.quoteSeen = true;
+                } else {
+                    this.field += c;
+                }
+                return;
+            }
+        }
+        if (c === this.delimiter) {
+            this.endField();
+        } else if (c === '\n') {
+            if (this.field.endsWith('\r')) {
+                this.field = this.field.substring(0, this.field.length - 1);
+            }
+            this.endRecord();
+        } else if (c === this.quote && !this.fieldStarted) {
+            this.fieldStarted = true;
+            this.inQuotes = true;
+        } else {
+            this.fieldStarted = true;
+            this.field += c;
+        }
+    }
+
+    private endField() {
+        this.record.push(this.field);
+        this.field = '';
+        this.fieldStarted = false;
+    }
+
+    private endRecord() {
+        this.endField();
+        this.records.push(this.record);
+        this.record = [];
+    }
+
+    private takeRecords(): CsvRecord[] {
+        const result = this.records;
+        this.records = [];
+        return result;
+    }
+}
+
+/**
+ * A parser accepting chunks of text and returning the completed records, the first record being the header.
+ */
+export type RecordParser = Pick<CsvParser, 'push' | 'flush'>;
+
+/**
+ * Generates the column names of a file without header: col1, col2, ..., colN.
+ * @param count the number of columns
+ */
+export function generateColumnNames(count: number): string[] {
+    return Array.from({ length: count }, (_value, idx) => `col${idx + 1}`);
+}
+
+/**
+ * A parser returning a header before the records of a file without header,
+ * made of the given columns or of names generated from the number of fields of the first record.
+ */
+class HeaderlessParser {
+    private headerAdded = false;
+
+    constructor(private parser: RecordParser, private columns?: string[]) {
+    }
+
+    push(chunk: string): CsvRecord[] {
+        return this.addHeader(this.parser.push(chunk));
+    }
+
+    flush(): CsvRecord[] {
+        return this.addHeader(this.parser.flush());
+    }
+
+    private addHeader(records: CsvRecord[]): CsvRecord[] {
+        if (this.headerAdded || records.length === 0) {
+            return records;
+        }
+        this.headerAdded = true;
+        return [this.columns ?? generateColumnNames(records[0].length), ...records];
+    }
+}
+
+/**
+ * Creates the parser of a file, according to its format.
+ * @param file the options of the file
+ * @param columns the columns of an ndjson file or of a file without header,
+ * defaults to the fields of its first objects or to the generated names
+ * @param onMalformedLine the callback receiving the invalid lines of an ndjson file, which are reported as errors otherwise.
+ * When it is set, the source text of the CSV records is kept, so that the malformed rows can be rejected as they are.
+ */
+export function createRecordParser(file: FileOptions, columns?: string[], onMalformedLine?: MalformedLineHandler): RecordParser {
+    if (file.format === 'ndjson') {
+        return new NdjsonParser(columns ?? readNdjsonColumns(file), file.filename, onMalformedLine);
+    }
+    const parser = new CsvParser(file.delimiter ?? ',', file.quoteChar ?? '"', onMalformedLine !== undefined);
+    return file.hasHeader === false ? new HeaderlessParser(parser, columns) : parser;
+}
+
+/**
+ * Reads the first records of a CSV or ndjson file, without loading the whole file in memory.
+ * The compressed files are decompressed as they are read.
+ * @param file the options of the file to read
+ * @param count the maximum number of records to return
+ */
+export function readFirstRecords(file: FileOptions, count: number): CsvRecord[] {
+    const parser = createRecordParser(file);
+    const decoder = new SourceDecoder(file.encoding);
+    const records: CsvRecord[] = [];
+    for (const chunk of readFileChunksSync(file)) {
+        records.push(...parser.push(decoder.write(chunk)));
+        if (records.length >= count) {
+            return records.slice(0, count);
+        }
+    }
+    records.push(...parser.push(decoder.end()), ...parser.flush());
+    return records.slice(0, count);
+}
+
+/**
+ * Reads the encoding of a file from its byte order mark, or from its options when it has no byte order mark.
+ * @param file the options of the file to read
+ */
+export function readEncoding(file: FileOptions): FileEncoding {
+    const [first] = readFileChunksSync(file);
+    return (first && detectByteOrderMark(first)?.encoding) ?? file.encoding ?? 'utf8';
+}
+
+/**
+ * Reads the column names from the first line of a CSV file, or from the first objects of an ndjson file.
+ * The column names of a file without header are generated from the number of fields of its first line.
+ * @param file the options of the file to read
+ */
+export function readHeader(file: FileOptions): string[] {
+    return readFirstRecords(file, 1)[0] ?? [];
+}
+
+// SQLite quotes the fields containing a space, a quote, a control char or a non ASCII char.
+const needsQuotes = /[\x00-\x20"'\u007f-\uffff]/;
+
+/**
+ * Formats a field the same way as the SQLite CSV exporter.
+ * @param value the value of the field, or null for a missing value
+ * @param delimiter the delimiter of the columns
+ */
+export function formatCsvField(value: string | null, delimiter: string): string {
+    if (value === null) {
+        return '';
+    }
+    if (value === '' || needsQuotes.test(value) || value.includes(delimiter)) {
+        return `"${value.replaceAll('"', '""')}"`;
+    }
+    return value;
+}
+
+/**
+ * Formats a record the same way as the SQLite CSV exporter, including the line ending.
+ * @param values the values of the fields
+ * @param delimiter the delimiter of the columns
+ */
+export function formatCsvRecord(values: (string | null)[], delimiter: string): string {
+    return values.map(value => formatCsvField(value, delimiter)).join(delimiter) + '\n';
+}
@@ -0,0 +1,116 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import { PassThrough } from 'stream';
+import { DialectFormatter, DialectWriter, hasDialect, sniffDialect } from './dialect';
+import type { ColumnType, FileOptions } from './sorter';
+
+async function convert(chunks: string[], file: Omit<FileOptions, 'filename'>, types: Record<string, ColumnType> = {}): Promise<string> {
+    const output = new PassThrough();
+    let text = '';
+    output.on('data', chunk => text += chunk.toString());
+    const writer = new DialectWriter(output, { filename: 'out.csv', ...file }, new Map(Object.entries(types)));
+    for (const chunk of chunks) {
+        writer.write(chunk);
+    }
+    writer.end();
+    await new Promise((resolve, reject) => writer.on('finish', resolve).on('error', reject));
+    return text;
+}
+
+describe('dialect', () => {
+    beforeAll(() => {
+        fs.mkdirSync('./output/files', { recursive: true });
+    });
+    describe('hasDialect', () => {
+        test('should detect the files with a dialect', () => {
+            expect(hasDialect({ filename: 'out.csv' })).toBe(false);
+            expect(hasDialect({ filename: 'out.csv', delimiter: ';' })).toBe(false);
+            expect(hasDialect({ filename: 'out.csv', quoting: 'all' })).toBe(true);
+            expect(hasDialect({ filename: 'out.csv', quoteChar: `'` })).toBe(true);
+            expect(hasDialect({ filename: 'out.csv', escapeChar: '\\' })).toBe(true);
+            expect(hasDialect({ filename: 'out.csv', lineEnding: '\r\n' })).toBe(true);
+        });
+    });
+    describe('sniffDialect', () => {
+        test('should detect the delimiter', () => {
+            expect(sniffDialect({ filename: './tests/unordered-id.csv' })).toEqual({ delimiter: ',', quoteChar: '"' });
+            expect(sniffDialect({ filename: './tests/unordered-id.psv' })).toEqual({ delimiter: '|', quoteChar: '"' });
+            expect(sniffDialect({ filename: './tests/unordered-id.tsv' })).toEqual({ delimiter: '\t', quoteChar: '"' });
+            fs.writeFileSync('./output/files/sniff-semicolon.csv', 'id;amount;label\n1;1,5;"a;b"\n2;2,25;c\n');
+            expect(sniffDialect({ filename: './output/files/sniff-semicolon.csv' })).toEqual({ delimiter: ';', quoteChar: '"' });
+            fs.writeFileSync('./output/files/sniff-columns.csv', 'id;name,first;age\n1;doe,john;12\n');
+            expect(sniffDialect({ filename: './output/files/sniff-columns.csv' })).toEqual({ delimiter: ';', quoteChar: '"' });
+        });
+        test('should detect the single quotes', () => {
+            fs.writeFileSync('./output/files/sniff-single.csv', `id|name\r\n1|'a|b'\r\n2|'it''s'\r\n3|"c"\r\n`);
+            expect(sniffDialect({ filename: './output/files/sniff-single.csv' })).toEqual({ delimiter: '|', quoteChar: `'` });
+        });
+        test('should sample the head of a large file', () => {
+            const rows = Array.from({ length: 10000 }, (_value, i) => `${i};name ${i};"x;y"`);
+            fs.writeFileSync('./output/files/sniff-large.csv.gz', zlib.gzipSync(['id;name;text', ...rows].join('\n')));
+            expect(sniffDialect({ filename: './output/files/sniff-large.csv.gz' })).toEqual({ delimiter: ';', quoteChar: '"' });
+        });
+        test('should default to a comma without several columns', () => {
+            fs.writeFileSync('./output/files/sniff-single-column.csv', 'id\n1\n2\n');
+            expect(sniffDialect({ filename: './output/files/sniff-single-column.csv' })).toEqual({ delimiter: ',', quoteChar: '"' });
+            fs.writeFileSync('./output/files/sniff-empty.csv', '');
+            expect(sniffDialect({ filename: './output/files/sniff-empty.csv' })).toEqual({ delimiter: ',', quoteChar: '"' });
+        });
+    });
+    describe('DialectFormatter', () => {
+        const record = ['1', 'john', 'a,b', 'say "hi"', 'two\nlines', ''];
+        test('should only quote the special fields by default', () => {
+            expect(new DialectFormatter({ filename: 'out.csv' }).format(record)).toBe('1,john,"a,b","say ""hi""","two\nlines",\n');
+        });
+        test('should quote all the fields', () => {
+            expect(new DialectFormatter({ filename: 'out.csv', quoting: 'all', lineEnding: '\r\n' }).format(record))
+                .toBe('"1","john","a,b","say ""hi""","two\nlines",""\r\n');
+        });
+        test('should quote the non numeric fields', () => {
+            const formatter = new DialectFormatter({ filename: 'out.csv', quoting: 'nonnumeric' });
+            expect(formatter.format(['1', '', 'Inf', '2', '3.5'], [true, true, true, false])).toBe('1,,"Inf","2","3.5"\n');
+        });
+        test('should escape the special characters without quoting', () => {
+            const formatter = new DialectFormatter({ filename: 'out.tsv', delimiter: '\t', quoting: 'none', escapeChar: '\\' });
+            expect(formatter.format(['a,b', 'c\td', 'say "hi"', 'back\\slash', 'two\r\nlines'])).toBe('a,b\tc\\\td\tsay \\"hi\\"\tback\\\\slash\ttwo\\\r\\\nlines\n');
+            expect(() => new DialectFormatter({ filename: 'out.csv', quoting: 'none' }).format(['a,b']))
+                .toThrow(`The value 'a,b' must be escaped, since the quoting is none, but there is no escapeChar!`);
+            expect(new DialectFormatter({ filename: 'out.csv', quoting: 'none' }).format(['a', 'b'])).toBe('a,b\n');
+        });
+        test('should use the quote and escape characters', () => {
+            expect(new DialectFormatter({ filename: 'out.csv', quoteChar: `'` }).format([`it's`, 'say "hi"', 'a|b'])).toBe(`'it''s',say "hi",a|b\n`);
+            expect(new DialectFormatter({ filename: 'out.csv', quoteChar: `'`, escapeChar: '\\' }).format([`it's`, 'C:\\temp'])).toBe(`'it\\'s','C:\\\\temp'\n`);
+            expect(new DialectFormatter({ filename: 'out.csv', delimiter: '|', quoteChar: '*' }).format(['a*b', 'c|d'])).toBe('*a**b*|*c|d*\n');
+        });
+    });
+    describe('DialectWriter', () => {
+        test('should format the rows with the dialect', async () => {
+            const text = await convert(['id,name,amount\n1,"a ""b""",1', '2.50\n2,,-3\n'], { quoting: 'nonnumeric', quoteChar: `'`, lineEnding: '\r\n' }, { id: 'integer', amount: 'real' });
+            expect(text).toBe(`'id','name','amount'\r\n1,'a "b"',12.50\r\n2,'',-3\r\n`);
+        });
+        test('should skip the header of a file without header', async () => {
+            expect(await convert(['id,name\n1,a\n'], { quoting: 'all', writeHeader: false })).toBe('"1","a"\n');
+            expect(await convert([], { quoting: 'all' })).toBe('');
+        });
+        test('should wait for the output to drain', async () => {
+            const output = new PassThrough({ highWaterMark: 16 });
+            const writer = new DialectWriter(output, { filename: 'out.csv', quoting: 'all' }, new Map());
+            const rows = Array.from({ length: 100 }, (_value, i) => `${i}\n`);
+            writer.end(['id\n', ...rows].join(''));
+            let text = '';
+            for await (const chunk of output) {
+                text += chunk.toString();
+            }
+            expect(text.split('\n')).toHaveLength(102);
+        });
+        test('should fail on the values that cannot be written', async () => {
+            await expect(convert(['id,name\n1,"a,b"\n'], { quoting: 'none' })).rejects.toThrow(`The value 'a,b' must be escaped, since the quoting is none, but there is no escapeChar!`);
+        });
+        test('should destroy the output', () => {
+            const output = new PassThrough();
+            const writer = new DialectWriter(output, { filename: 'out.csv', quoting: 'all' }, new Map());
+            writer.destroy();
+            expect(output.destroyed).toBe(true);
+        });
+    });
+});
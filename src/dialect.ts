@@ -0,0 +1,189 @@
+import { once } from 'events';
+import { StringDecoder } from 'string_decoder';
+import { Writable } from 'stream';
+import { finished } from 'stream/promises';
+import { readFileChunksSync } from './compression';
+import { CsvParser, CsvRecord } from './csv';
+import { SourceDecoder } from './encoding';
+import { isNumericType } from './format';
+import { toNumeric } from './numeric';
+import type { ColumnType, CsvDialect, FileOptions, Quoting } from './sorter';
+
+/**
+ * The number of characters read from the head of a file for detecting its dialect.
+ */
+const dialectSampleLength = 64 * 1024;
+
+const delimiterCandidates = [',', ';', '|', '\t'];
+const quoteCandidates = ['"', `'`];
+
+/**
+ * Indicates whether a file is written with another dialect than the SQLite CSV exporter,
+ * because its quoting, quote character, escape character or line ending is set.
+ * @param file the options of the file
+ */
+export function hasDialect(file: FileOptions): boolean {
+    return file.quoting !== undefined || file.quoteChar !== undefined || file.escapeChar !== undefined || file.lineEnding !== undefined;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[\\^$.*+?()[\]{}|]/g, '\\$&');
+}
+
+function readSample(file: FileOptions): { text: string, complete: boolean } {
+    const decoder = new SourceDecoder(file.encoding);
+    let text = '';
+    for (const chunk of readFileChunksSync(file)) {
+        text += decoder.write(chunk);
+        if (text.length >= dialectSampleLength) {
+            return { text, complete: false };
+        }
+    }
+    return { text: text + decoder.end(), complete: true };
+}
+
+function countQuotedFields(text: string, quote: string): number {
+    // a quoted field starts after a delimiter or at the start of a line, and ends before a delimiter or at the end of a line,
+    // the quotes inside the field being doubled
+    const delimiters = delimiterCandidates.map(escapeRegExp).join('');
+    const quotedField = new RegExp(`(^|[${delimiters}]) *${quote}([^${quote}\\n]|${quote}${quote})*${quote} *(?=[${delimiters}]|\\r?$)`, 'gm');
+    return text.match(quotedField)?.length ?? 0;
+}
+
+/**
+ * Detects the delimiter and the quote character of a CSV file from a sample of its head.
+ * The quote character is the one quoting the most fields, and the delimiter is the one splitting the most lines
+ * into the same number of fields as the header, at least 2. Defaults to a comma and a double quote.
+ * @param file the options of the file to sample
+ */
+export function sniffDialect(file: FileOptions): CsvDialect {
+    const { text, complete } = readSample(file);
+    const quoteChar = quoteCandidates.reduce((best, quote) => countQuotedFields(text, quote) > countQuotedFields(text, best) ? quote : best);
+    let delimiter = ',';
+    let bestScore = [0, 0];
+    for (const candidate of delimiterCandidates) {
+        const parser = new CsvParser(candidate, quoteChar);
+        // the last record of a truncated sample is incomplete, so it is never flushed
+        const records = parser.push(text).concat(complete ? parser.flush() : []);
+        const columnCount = records[0]?.length ?? 0;
+        const consistency = records.filter(record => record.length === columnCount).length / records.length;
+        const score = [columnCount > 1 ? consistency : 0, columnCount];
+        if (score[0] > bestScore[0] || (score[0] === bestScore[0] && score[0] > 0 && score[1] > bestScore[1])) {
+            delimiter = candidate;
+            bestScore = score;
+        }
+    }
+    return { delimiter, quoteChar };
+}
+
+/**
+ * Formats the records of a file with its dialect.
+ */
+export class DialectFormatter {
+    private delimiter: string;
+    private quote: string;
+    private escape: string | undefined;
+    private quoting: Quoting;
+    private lineEnding: string;
+    private special: RegExp;
+    private quoted: RegExp;
+
+    /**
+     * @param file the options of the file, defining its dialect
+     */
+    constructor(file: FileOptions) {
+        this.delimiter = file.delimiter ?? ',';
+        this.quote = file.quoteChar ?? '"';
+        this.escape = file.escapeChar;
+        this.quoting = file.quoting ?? 'minimal';
+        this.lineEnding = file.lineEnding ?? '\n';
+        const chars = [this.delimiter, this.quote, ...(this.escape ? [this.escape] : [])].map(escapeRegExp);
+        this.special = new RegExp(`${chars.join('|')}|\\r|\\n`, 'g');
+        // inside the quotes, only the quote character and the escape character are escaped
+        this.quoted = new RegExp(chars.slice(1).join('|'), 'g');
+    }
+
+    /**
+     * Formats a record, including the line ending.
+     * @param values the values of the fields
+     * @param numeric the numeric columns, indexed by position, whose numbers are not quoted by the nonnumeric quoting
+     */
+    format(values: CsvRecord, numeric: boolean[] = []): string {
+        return values.map((value, idx) => this.formatField(value, numeric[idx] === true)).join(this.delimiter) + this.lineEnding;
+    }
+
+    private formatField(value: string, numeric: boolean): string {
+        this.special.lastIndex = 0;
+        const special = this.special.test(value);
+        if (this.quoting === 'none') {
+            if (!special) {
+                return value;
+            }
+            if (this.escape === undefined) {
+                throw new Error(`The value '${value}' must be escaped, since the quoting is none, but there is no escapeChar!`);
+            }
+            return value.replace(this.special, `${this.escape}$&`);
+        }
+        const number = numeric && (value === '' || toNumeric(value) !== undefined);
+        const quoted = this.quoting === 'all' || (this.quoting === 'nonnumeric' && !number) || special;
+        if (!quoted) {
+            return value;
+        }
+        const escaped = this.escape !== undefined ? value.replace(this.quoted, `${this.escape}$&`) : value.replaceAll(this.quote, this.quote + this.quote);
+        return this.quote + escaped + this.quote;
+    }
+}
+
+/**
+ * A writable stream receiving the sorted CSV rows and writing them to another stream with the dialect of a file.
+ * The header is always received, so that the numeric columns are known, but it is only written when the file has a header.
+ */
+export class DialectWriter extends Writable {
+    private decoder = new StringDecoder('utf8');
+    private parser = new CsvParser();
+    private formatter: DialectFormatter;
+    private numeric: boolean[] | undefined;
+
+    /**
+     * @param output the stream receiving the formatted text
+     * @param file the options of the file, defining its dialect
+     * @param types the types of the columns, indexed by their lower case name
+     */
+    constructor(private output: Writable, private file: FileOptions, private types: Map<string, ColumnType | undefined>) {
+        super();
+        this.formatter = new DialectFormatter(file);
+    }
+
+    override _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+        this.writeRecords(this.parser.push(this.decoder.write(chunk))).then(() => callback(), callback);
+    }
+
+    override _final(callback: (error?: Error | null) => void): void {
+        this.writeRecords(this.parser.push(this.decoder.end()).concat(this.parser.flush()))
+            .then(() => {
+                this.output.end();
+                return finished(this.output);
+            })
+            .then(() => callback(), callback);
+    }
+
+    override _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+        this.output.destroy();
+        callback(error);
+    }
+
+    private async writeRecords(records: CsvRecord[]) {
+        let text = '';
+        for (const record of records) {
+            if (!this.numeric) {
+                this.numeric = record.map(name => isNumericType(this.types.get(name.toLowerCase())));
+                text += this.file.writeHeader !== false ? this.formatter.format(record) : '';
+                continue;
+            }
+            text += this.formatter.format(record, this.numeric);
+        }
+        if (text && !this.output.write(text)) {
+            await once(this.output, 'drain');
+        }
+    }
+}
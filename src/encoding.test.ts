@@ -0,0 +1,98 @@
+import { PassThrough } from 'stream';
+import { detectByteOrderMark, EncodedWriter, encodeText, isEncoded, SourceDecoder } from './encoding';
+import type { FileEncoding } from './sorter';
+
+function decode(chunks: (Buffer | string)[], encoding?: FileEncoding): string {
+    const decoder = new SourceDecoder(encoding);
+    return chunks.map(chunk => decoder.write(chunk)).join('') + decoder.end();
+}
+
+async function encode(chunks: (Buffer | string)[], encoding: FileEncoding, bom: boolean): Promise<Buffer> {
+    const output = new PassThrough();
+    const buffers: Buffer[] = [];
+    output.on('data', chunk => buffers.push(chunk));
+    const writer = new EncodedWriter(output, encoding, bom);
+    for (const chunk of chunks) {
+        writer.write(chunk);
+    }
+    writer.end();
+    await new Promise((resolve, reject) => writer.on('finish', resolve).on('error', reject));
+    return Buffer.concat(buffers);
+}
+
+describe('encoding', () => {
+    describe('detectByteOrderMark', () => {
+        test('should detect the encoding from the byte order mark', () => {
+            expect(detectByteOrderMark(Buffer.from([0xef, 0xbb, 0xbf, 0x61]))).toEqual({ encoding: 'utf8', length: 3 });
+            expect(detectByteOrderMark(Buffer.from([0xff, 0xfe, 0x61, 0x00]))).toEqual({ encoding: 'utf16le', length: 2 });
+            expect(detectByteOrderMark(Buffer.from([0xfe, 0xff, 0x00, 0x61]))).toEqual({ encoding: 'utf16be', length: 2 });
+            expect(detectByteOrderMark(Buffer.from('id,name'))).toBeUndefined();
+            expect(detectByteOrderMark(Buffer.alloc(0))).toBeUndefined();
+        });
+    });
+    describe('isEncoded', () => {
+        test('should detect the files written in another encoding or with a byte order mark', () => {
+            expect(isEncoded({ filename: 'out.csv' })).toBe(false);
+            expect(isEncoded({ filename: 'out.csv', encoding: 'utf8', bom: false })).toBe(false);
+            expect(isEncoded({ filename: 'out.csv', encoding: 'latin1' })).toBe(true);
+            expect(isEncoded({ filename: 'out.csv', bom: true })).toBe(true);
+        });
+    });
+    describe('encodeText', () => {
+        test('should encode the text', () => {
+            expect(encodeText('zoé', 'utf8')).toEqual(Buffer.from([0x7a, 0x6f, 0xc3, 0xa9]));
+            expect(encodeText('zoé', 'utf16le')).toEqual(Buffer.from([0x7a, 0x00, 0x6f, 0x00, 0xe9, 0x00]));
+            expect(encodeText('zoé', 'utf16be')).toEqual(Buffer.from([0x00, 0x7a, 0x00, 0x6f, 0x00, 0xe9]));
+            expect(encodeText('zoé€', 'latin1')).toEqual(Buffer.from([0x7a, 0x6f, 0xe9, 0x3f]));
+        });
+    });
+    describe('SourceDecoder', () => {
+        test('should decode the chunks split in the middle of a character', () => {
+            const data = Buffer.from('id,name\n1,łukasz\n');
+            expect(decode([data.subarray(0, 1), data.subarray(1, 11), data.subarray(11)])).toBe('id,name\n1,łukasz\n');
+            const utf16 = encodeText('\ufeffid,name\n1,łukasz\n', 'utf16be');
+            expect(decode([utf16.subarray(0, 3), utf16.subarray(3, 20), utf16.subarray(20)])).toBe('id,name\n1,łukasz\n');
+        });
+        test('should strip the byte order mark', () => {
+            expect(decode([Buffer.from('\ufeffid\n')])).toBe('id\n');
+            expect(decode([encodeText('\ufeffid\n', 'utf16le')], 'latin1')).toBe('id\n');
+            expect(decode([Buffer.from([0xef, 0xbb])], 'latin1')).toBe('ï»');
+            expect(decode([])).toBe('');
+        });
+        test('should decode the sources without byte order mark in their encoding', () => {
+            expect(decode([Buffer.from([0x7a, 0x6f, 0xe9])], 'latin1')).toBe('zoé');
+            expect(decode([encodeText('zoé', 'utf16be')], 'utf16be')).toBe('zoé');
+        });
+        test('should keep the text chunks', () => {
+            expect(decode(['\ufeffid,name\n', '1,zoé\n'], 'latin1')).toBe('id,name\n1,zoé\n');
+        });
+    });
+    describe('EncodedWriter', () => {
+        test('should encode the text split in the middle of a character', async () => {
+            const data = Buffer.from('id,name\n1,łukasz\n');
+            expect(await encode([data.subarray(0, 11), data.subarray(11)], 'utf16le', false)).toEqual(encodeText('id,name\n1,łukasz\n', 'utf16le'));
+        });
+        test('should write the byte order mark once', async () => {
+            expect(await encode(['id\n', '1\n'], 'utf16be', true)).toEqual(Buffer.from([0xfe, 0xff, 0x00, 0x69, 0x00, 0x64, 0x00, 0x0a, 0x00, 0x31, 0x00, 0x0a]));
+            expect(await encode([], 'utf8', true)).toEqual(Buffer.from([0xef, 0xbb, 0xbf]));
+            expect(await encode([], 'latin1', false)).toEqual(Buffer.alloc(0));
+        });
+        test('should wait for the output to drain', async () => {
+            const output = new PassThrough({ highWaterMark: 16 });
+            const writer = new EncodedWriter(output, 'utf16le', false);
+            const rows = Array.from({ length: 100 }, (_value, i) => `${i}\n`);
+            writer.end(['id\n', ...rows].join(''));
+            const buffers: Buffer[] = [];
+            for await (const chunk of output) {
+                buffers.push(chunk);
+            }
+            expect(Buffer.concat(buffers).toString('utf16le').split('\n')).toHaveLength(102);
+        });
+        test('should destroy the output', () => {
+            const output = new PassThrough();
+            const writer = new EncodedWriter(output, 'latin1', false);
+            writer.destroy();
+            expect(output.destroyed).toBe(true);
+        });
+    });
+});
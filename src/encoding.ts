@@ -0,0 +1,145 @@
+import { once } from 'events';
+import { StringDecoder } from 'string_decoder';
+import { Writable } from 'stream';
+import { finished } from 'stream/promises';
+import type { FileEncoding, FileOptions } from './sorter';
+
+const byteOrderMarks: [FileEncoding, Buffer][] = [
+    ['utf8', Buffer.from([0xef, 0xbb, 0xbf])],
+    ['utf16le', Buffer.from([0xff, 0xfe])],
+    ['utf16be', Buffer.from([0xfe, 0xff])],
+];
+
+/**
+ * Detects the encoding of a text from its byte order mark.
+ * @param data the first bytes of the text
+ * @returns the encoding and the length of the byte order mark, or undefined when there is no byte order mark
+ */
+export function detectByteOrderMark(data: Buffer): { encoding: FileEncoding, length: number } | undefined {
+    const found = byteOrderMarks.find(([, bom]) => data.subarray(0, bom.length).equals(bom));
+    return found ? { encoding: found[0], length: found[1].length } : undefined;
+}
+
+/**
+ * Indicates whether a destination file is written in another encoding than utf8, or with a byte order mark.
+ * @param file the options of the file
+ */
+export function isEncoded(file: FileOptions): boolean {
+    return (file.encoding ?? 'utf8') !== 'utf8' || file.bom === true;
+}
+
+/**
+ * Encodes a text, the characters that cannot be encoded in latin1 being replaced by a question mark.
+ * @param text the text to encode
+ * @param encoding the encoding of the bytes
+ */
+export function encodeText(text: string, encoding: FileEncoding): Buffer {
+    switch (encoding) {
+        case 'utf16le':
+            return Buffer.from(text, 'utf16le');
+        case 'utf16be':
+            return Buffer.from(text, 'utf16le').swap16();
+        case 'latin1':
+            return Buffer.from(text.replace(/[^\x00-\xff]/gu, '?'), 'latin1');
+        default:
+            return Buffer.from(text, 'utf8');
+    }
+}
+
+type Decoder = (data: Buffer, end: boolean) => string;
+
+function createDecoder(encoding: FileEncoding): Decoder {
+    if (encoding === 'latin1') {
+        // every byte is a character, so the chunks can be decoded separately
+        return data => data.toString('latin1');
+    }
+    const decoder = new TextDecoder(encoding === 'utf8' ? 'utf-8' : encoding === 'utf16le' ? 'utf-16le' : 'utf-16be', { ignoreBOM: true });
+    return (data, end) => decoder.decode(data, { stream: !end });
+}
+
+/**
+ * A decoder converting the chunks of a source to text, like the StringDecoder.
+ * The encoding is detected from the byte order mark, which is stripped, or defaults to the given encoding.
+ */
+export class SourceDecoder {
+    private decoder: Decoder | undefined;
+    private pending = Buffer.alloc(0);
+
+    /**
+     * @param encoding the encoding of the source when it has no byte order mark
+     */
+    constructor(private encoding: FileEncoding = 'utf8') {
+    }
+
+    write(chunk: Buffer | string): string {
+        if (typeof chunk === 'string') {
+            // the text chunks of the input streams are already decoded
+            this.encoding = 'utf8';
+        }
+        const data = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+        if (this.decoder) {
+            return this.decoder(data, false);
+        }
+        this.pending = Buffer.concat([this.pending, data]);
+        // the byte order mark has at most 3 bytes
+        return this.pending.length >= 3 ? this.start(false) : '';
+    }
+
+    end(): string {
+        return this.decoder ? this.decoder(Buffer.alloc(0), true) : this.start(true);
+    }
+
+    private start(end: boolean): string {
+        const bom = detectByteOrderMark(this.pending);
+        this.decoder = createDecoder(bom?.encoding ?? this.encoding);
+        const data = this.pending.subarray(bom?.length ?? 0);
+        this.pending = Buffer.alloc(0);
+        return this.decoder(data, end);
+    }
+}
+
+/**
+ * A writable stream receiving utf8 text and writing it to another stream in another encoding,
+ * optionally preceded by a byte order mark.
+ */
+export class EncodedWriter extends Writable {
+    private decoder = new StringDecoder('utf8');
+    private bom: string;
+
+    /**
+     * @param output the stream receiving the encoded bytes
+     * @param encoding the encoding of the bytes
+     * @param bom true for writing a byte order mark before the text
+     */
+    constructor(private output: Writable, private encoding: FileEncoding, bom: boolean) {
+        super();
+        this.bom = bom ? '\ufeff' : '';
+    }
+
+    override _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+        this.writeText(this.decoder.write(chunk)).then(() => callback(), callback);
+    }
+
+    override _final(callback: (error?: Error | null) => void): void {
+        // the byte order mark is written even when there is no text
+        this.writeText(this.decoder.end())
+            .then(() => {
+                this.output.end();
+                return finished(this.output);
+            })
+            .then(() => callback(), callback);
+    }
+
+    override _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+        this.output.destroy();
+        callback(error);
+    }
+
+    private async writeText(text: string) {
+        const data = encodeText(this.bom + text, this.encoding);
+        this.bom = '';
+        if (data.length > 0 && !this.output.write(data)) {
+            await once(this.output, 'drain');
+        }
+    }
+}
@@ -0,0 +1,55 @@
+import { compileFilter } from './filter';
+import { Filter, SchemaColumn } from './sorter';
+
+describe('filter', () => {
+    describe('compileFilter', () => {
+        const columns: SchemaColumn[] = [
+            { name: 'id', type: 'integer' },
+            { name: 'The Name' },
+            { name: 'birthday', type: 'date', format: 'DD/MM/YYYY' },
+            { name: 'active', type: 'boolean', format: 'Y/N' },
+        ];
+        const compile = (filter: Filter) => compileFilter(filter, columns, 'the schema');
+        test('should compile the comparisons', () => {
+            expect(compile({ column: 'ID', op: '>=', value: 12.5 })).toBe('id >= 12.5');
+            expect(compile({ column: 'The Name', op: '=', value: `O'Hara` })).toBe(`"The Name" = 'O''Hara'`);
+            expect(compile({ column: 'the name', op: 'not like', value: '%"%' })).toBe(`"The Name" not like '%"%'`);
+            expect(compile({ column: 'active', op: '=', value: true })).toBe('active = 1');
+            expect(compile({ column: 'active', op: '<>', value: false })).toBe('active <> 0');
+        });
+        test('should convert the values to the storage of the column', () => {
+            expect(compile({ column: 'birthday', op: '<', value: '25/12/1990' })).toBe(`birthday < '1990-12-25'`);
+            expect(compile({ column: 'birthday', op: 'like', value: '25/%' })).toBe(`birthday like '25/%'`);
+            expect(compile({ column: 'active', op: 'in', values: ['Y', 'n', 'unknown'] })).toBe(`active in ('1', '0', 'unknown')`);
+        });
+        test('should compile the empty conditions', () => {
+            expect(compile({ column: 'id', op: 'is empty' })).toBe(`coalesce(id, '') = ''`);
+            expect(compile({ column: 'id', op: 'is not empty' })).toBe(`coalesce(id, '') <> ''`);
+        });
+        test('should compile the nested conditions', () => {
+            expect(compile({
+                or: [
+                    { and: [{ column: 'id', op: '<', value: 10 }, { column: 'active', op: 'not in', values: [] }] },
+                    { column: 'id', op: '=', value: 0 },
+                ],
+            })).toBe(`((id < 10 and active not in ()) or id = 0)`);
+            expect(compile({ and: [] })).toBe('1');
+            expect(compile({ or: [] })).toBe('0');
+        });
+        test('should filter the computed columns by their expression', () => {
+            const select = [{ name: 'id' }, { expression: `"The Name" || '!'`, as: 'Label' }];
+            expect(compileFilter({ column: 'label', op: 'like', value: 'a%' }, columns, 'the schema', select)).toBe(`("The Name" || '!') like 'a%'`);
+            expect(compileFilter({ column: 'id', op: '=', value: '1' }, columns, 'the schema', select)).toBe(`id = '1'`);
+        });
+        test('should reject the invalid filters', () => {
+            expect(() => compile(null as unknown as Filter)).toThrow('The where filter must be an object!');
+            expect(() => compile({ and: 'id = 1' } as unknown as Filter)).toThrow('The and conditions of the where filter must be an array!');
+            expect(() => compile({ column: 'name', op: '=', value: 1 })).toThrow(`Column 'name' of the where filter is not in the schema: (id, The Name, birthday, active)!`);
+            expect(() => compile({ column: 'id', op: '= 1 or 1 =', value: 1 } as unknown as Filter)).toThrow(`The operator '= 1 or 1 =' of column 'id' in the where filter is not supported!`);
+            expect(() => compile({ column: 'id', op: '=' } as unknown as Filter)).toThrow(`The value of column 'id' in the where filter is missing!`);
+            expect(() => compile({ column: 'id', op: 'in', value: 1 } as unknown as Filter)).toThrow(`The values of column 'id' in the where filter must be an array!`);
+            expect(() => compile({ column: 'id', op: '=', value: Infinity })).toThrow(`The values of column 'id' in the where filter must be strings, finite numbers or booleans!`);
+            expect(() => compile({ column: 'id', op: 'in', values: [{}] } as unknown as Filter)).toThrow(`The values of column 'id' in the where filter must be strings, finite numbers or booleans!`);
+        });
+    });
+});
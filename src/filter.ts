@@ -0,0 +1,73 @@
+import { createNormalizer } from './format';
+import { findComputedColumn, sameColumnName, toColumnName, toSqlLiteral } from './sql';
+import { ValidationError } from './validation';
+import type { ColumnFilter, Filter, FilterValue, SchemaColumn, SelectedColumn } from './sorter';
+
+const comparisonOperators = ['=', '<>', '<', '<=', '>', '>=', 'like', 'not like'];
+
+/**
+ * Compiles a filter to an SQL expression, quoting the column names and escaping the values,
+ * so that a filter built from a user input can't inject SQL.
+ * @param filter the filter to compile
+ * @param columns the columns of the schema, or of the header of the source file
+ * @param origin a description of where the columns come from, used in the error message
+ * @param select the selected columns, whose computed columns can be filtered by their alias
+ */
+export function compileFilter(filter: Filter, columns: SchemaColumn[], origin: string, select: SelectedColumn[] = []): string {
+    if (typeof filter !== 'object' || filter === null) {
+        throw new ValidationError('The where filter must be an object!');
+    }
+    if ('and' in filter || 'or' in filter) {
+        const [operator, filters, empty] = 'and' in filter ? ['and', filter.and, '1'] : ['or', filter.or, '0'];
+        if (!Array.isArray(filters)) {
+            throw new ValidationError(`The ${operator} conditions of the where filter must be an array!`);
+        }
+        if (filters.length === 0) {
+            return empty;
+        }
+        return `(${filters.map(child => compileFilter(child, columns, origin, select)).join(` ${operator} `)})`;
+    }
+    return compileColumnFilter(filter, columns, origin, select);
+}
+
+function compileColumnFilter(filter: ColumnFilter, columns: SchemaColumn[], origin: string, select: SelectedColumn[]): string {
+    const computed = findComputedColumn(select, String(filter.column));
+    const column = computed ? { name: computed.as! } : columns.find(col => sameColumnName(col.name, String(filter.column)));
+    if (!column) {
+        throw new ValidationError(`Column '${filter.column}' of the where filter is not in ${origin}: (${columns.map(col => col.name).join(', ')})!`);
+    }
+    // the computed columns are filtered by their expression
+    const name = computed ? `(${computed.expression})` : toColumnName(column.name);
+    if (filter.op === 'is empty' || filter.op === 'is not empty') {
+        return `coalesce(${name}, '') ${filter.op === 'is empty' ? '=' : '<>'} ''`;
+    }
+    if (filter.op === 'in' || filter.op === 'not in') {
+        if (!Array.isArray(filter.values)) {
+            throw new ValidationError(`The values of column '${column.name}' in the where filter must be an array!`);
+        }
+        return `${name} ${filter.op} (${filter.values.map(value => toValueLiteral(column, value)).join(', ')})`;
+    }
+    if (!comparisonOperators.includes(filter.op)) {
+        throw new ValidationError(`The operator '${filter.op}' of column '${column.name}' in the where filter is not supported!`);
+    }
+    if (!('value' in filter)) {
+        throw new ValidationError(`The value of column '${column.name}' in the where filter is missing!`);
+    }
+    // the patterns are matched with the stored values
+    const isPattern = filter.op === 'like' || filter.op === 'not like';
+    return `${name} ${filter.op} ${toValueLiteral(column, filter.value, !isPattern)}`;
+}
+
+function toValueLiteral(column: SchemaColumn, value: FilterValue, normalize = true): string {
+    if (typeof value === 'boolean') {
+        return value ? '1' : '0';
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        return String(value);
+    }
+    if (typeof value !== 'string') {
+        throw new ValidationError(`The values of column '${column.name}' in the where filter must be strings, finite numbers or booleans!`);
+    }
+    const normalizer = normalize ? createNormalizer(column) : undefined;
+    return toSqlLiteral(normalizer?.(value) ?? value);
+}
@@ -0,0 +1,148 @@
+import fs from 'fs';
+import { createFormatter, createNormalizer, isNumericType, normalizeSources, toSqlFormatter } from './format';
+
+async function readAll(stream: NodeJS.ReadableStream): Promise<string> {
+    let text = '';
+    for await (const chunk of stream) {
+        text += chunk;
+    }
+    return text;
+}
+
+describe('format', () => {
+    beforeAll(() => {
+        if(!fs.existsSync('./output')) {
+            fs.mkdirSync('./output');
+        }
+        if(!fs.existsSync('./output/files')) {
+            fs.mkdirSync('./output/files');
+        }
+    });
+    describe('isNumericType', () => {
+        test('should identify the types stored as numbers', () => {
+            expect(isNumericType('number')).toBe(true);
+            expect(isNumericType('integer')).toBe(true);
+            expect(isNumericType('real')).toBe(true);
+            expect(isNumericType('boolean')).toBe(true);
+            expect(isNumericType('date')).toBe(false);
+            expect(isNumericType(undefined)).toBe(false);
+        });
+    });
+    describe('createNormalizer', () => {
+        test('should keep the values without format', () => {
+            expect(createNormalizer({ name: 'a' })).toBeUndefined();
+            expect(createNormalizer({ name: 'a', type: 'date' })).toBeUndefined();
+            expect(createNormalizer({ name: 'a', type: 'real' })).toBeUndefined();
+        });
+        test('should normalize the dates', () => {
+            const normalize = createNormalizer({ name: 'a', type: 'date', format: 'D/M/YYYY' })!;
+            expect(normalize('5/1/2024')).toBe('2024-01-05');
+            expect(normalize('25/12/2024')).toBe('2024-12-25');
+            expect(normalize('29/2/2024')).toBe('2024-02-29');
+            expect(normalize('29/2/2023')).toBe('29/2/2023');
+            expect(normalize('1/13/2024')).toBe('1/13/2024');
+            expect(normalize('0/1/2024')).toBe('0/1/2024');
+            expect(normalize('2024-01-05')).toBe('2024-01-05');
+            expect(normalize('')).toBe('');
+        });
+        test('should normalize the datetimes', () => {
+            const normalize = createNormalizer({ name: 'a', type: 'datetime', format: 'YYYYMMDD HH:mm:ss.SSS' })!;
+            expect(normalize('20240105 08:30:59.007')).toBe('2024-01-05 08:30:59.007');
+            expect(normalize('20240105 24:00:00.000')).toBe('20240105 24:00:00.000');
+            expect(normalize('20240105 23:60:00.000')).toBe('20240105 23:60:00.000');
+            expect(normalize('20240105 23:00:60.000')).toBe('20240105 23:00:60.000');
+            const normalizeDate = createNormalizer({ name: 'a', type: 'datetime', format: '[DD.MM.YYYY]' })!;
+            expect(normalizeDate('[05.01.2024]')).toBe('2024-01-05 00:00:00');
+            expect(normalizeDate('05-01-2024')).toBe('05-01-2024');
+            const normalizeTime = createNormalizer({ name: 'a', type: 'date', format: 'DD/MM/YYYY H:mm' })!;
+            expect(normalizeTime('05/01/2024 8:30')).toBe('2024-01-05');
+        });
+        test('should normalize the booleans', () => {
+            const normalizeDefault = createNormalizer({ name: 'a', type: 'boolean' })!;
+            expect(['true', 'False', 'YES', 'no', 'y', 'N', 't', 'f', '1', '0', 'maybe'].map(normalizeDefault)).toEqual(['1', '0', '1', '0', '1', '0', '1', '0', '1', '0', 'maybe']);
+            const normalize = createNormalizer({ name: 'a', type: 'boolean', format: 'Oui/Non' })!;
+            expect(['oui', 'NON', 'true', ''].map(normalize)).toEqual(['1', '0', 'true', '']);
+        });
+        test('should normalize the numbers', () => {
+            const normalizeBoth = createNormalizer({ name: 'a', type: 'real', format: '# ##0,00' })!;
+            expect(['1 234,50', '-0,5', '12', 'n/a', ''].map(normalizeBoth)).toEqual(['1234.50', '-0.5', '12', 'n/a', '']);
+            const normalizeGrouping = createNormalizer({ name: 'a', type: 'integer', format: '#,##0' })!;
+            expect(['1,234,567', '12'].map(normalizeGrouping)).toEqual(['1234567', '12']);
+            const normalizeRepeated = createNormalizer({ name: 'a', type: 'integer', format: '#.###.##0' })!;
+            expect(normalizeRepeated('1.234.567')).toBe('1234567');
+            const normalizeDecimal = createNormalizer({ name: 'a', type: 'real', format: '0,00' })!;
+            expect(normalizeDecimal('3,25')).toBe('3.25');
+            const normalizeNone = createNormalizer({ name: 'a', type: 'integer', format: '0' })!;
+            expect(normalizeNone(' 12 ')).toBe('12');
+        });
+        test('should validate the formats', () => {
+            expect(() => createNormalizer({ name: 'a', format: 'x' })).toThrow(`The column 'a' of type 'string' does not support a format!`);
+            expect(() => createNormalizer({ name: 'a', type: 'number', format: '0.00' })).toThrow(`The column 'a' of type 'number' does not support a format!`);
+            expect(() => createNormalizer({ name: 'a', type: 'real', outputFormat: '0.00' })).toThrow(`The column 'a' of type 'real' does not support an output format!`);
+            expect(() => createNormalizer({ name: 'a', outputFormat: 'x' })).toThrow(`The column 'a' of type 'string' does not support an output format!`);
+            expect(() => createNormalizer({ name: 'a', type: 'date', format: 'MM/YYYY' })).toThrow(`The format 'MM/YYYY' of column 'a' must contain the year, the month and the day!`);
+            expect(() => createNormalizer({ name: 'a', type: 'date', format: 'DD/YYYY' })).toThrow(`The format 'DD/YYYY' of column 'a' must contain the year, the month and the day!`);
+            expect(() => createNormalizer({ name: 'a', type: 'date', format: 'DD/MM' })).toThrow(`The format 'DD/MM' of column 'a' must contain the year, the month and the day!`);
+            expect(() => createNormalizer({ name: 'a', type: 'boolean', format: 'Y' })).toThrow(`The format 'Y' of column 'a' must contain the true and false values separated by a slash!`);
+            expect(() => createNormalizer({ name: 'a', type: 'boolean', format: 'Y/Y' })).toThrow(`The format 'Y/Y' of column 'a' must contain the true and false values separated by a slash!`);
+            expect(() => createNormalizer({ name: 'a', type: 'real', format: '#,##0.00 €' })).toThrow(`The format '#,##0.00 €' of column 'a' must be made of # and 0 with a grouping separator and a decimal separator!`);
+            expect(() => createNormalizer({ name: 'a', type: 'real', format: '$0' })).toThrow(`The format '$0' of column 'a' must be made of # and 0 with a grouping separator and a decimal separator!`);
+        });
+    });
+    describe('createFormatter', () => {
+        test('should keep the values without output format', () => {
+            expect(createFormatter({ name: 'a' })).toBeUndefined();
+            expect(createFormatter({ name: 'a', type: 'date' })).toBeUndefined();
+            expect(createFormatter({ name: 'a', type: 'real', format: '0,00' })).toBeUndefined();
+        });
+        test('should format the dates', () => {
+            const format = createFormatter({ name: 'a', type: 'date', format: 'DD/MM/YYYY', outputFormat: 'D.M.YYYY HH:mm:ss.SSS' })!;
+            expect(format('2024-01-05')).toBe('5.1.2024 00:00:00.000');
+            expect(format('2024-11-25 08:30:59.007')).toBe('25.11.2024 08:30:59.007');
+            expect(format('05/01/2024')).toBe('05/01/2024');
+            expect(format('')).toBe('');
+            expect(format(null)).toBeNull();
+            const formatInput = createFormatter({ name: 'a', type: 'datetime', format: 'YYYY-MM-DDTH:mm' })!;
+            expect(formatInput('2024-01-05 08:30:00')).toBe('2024-01-05T8:30');
+            const formatMonth = createFormatter({ name: 'a', type: 'date', outputFormat: 'MM/YYYY' })!;
+            expect(formatMonth('2024-01-05')).toBe('01/2024');
+        });
+        test('should format the booleans', () => {
+            const format = createFormatter({ name: 'a', type: 'boolean', outputFormat: 'Y/N' })!;
+            expect(['1', '0', 'maybe', null].map(format)).toEqual(['Y', 'N', 'maybe', null]);
+        });
+        test('should validate the output formats', () => {
+            expect(() => createFormatter({ name: 'a', type: 'boolean', outputFormat: 'yes' })).toThrow(`The format 'yes' of column 'a' must contain the true and false values separated by a slash!`);
+        });
+    });
+    describe('toSqlFormatter', () => {
+        test('should keep the values without output format', () => {
+            expect(toSqlFormatter({ name: 'a' }, 'a')).toBeUndefined();
+        });
+        test('should format the dates', () => {
+            expect(toSqlFormatter({ name: 'a', type: 'date', outputFormat: `D 'YYYY'` }, 'a')).toBe(
+                `case when a glob '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]*' then ` +
+                `cast(coalesce(nullif(substr(a, 9, 2), ''), '00') as integer) || ' ''' || coalesce(nullif(substr(a, 1, 4), ''), '0000') || ''''` +
+                ` else a end`);
+        });
+        test('should format the booleans', () => {
+            expect(toSqlFormatter({ name: 'a', type: 'boolean', format: `Y/N'` }, '"a b"')).toBe(`case "a b" when 1 then 'Y' when 0 then 'N''' else "a b" end`);
+        });
+    });
+    describe('normalizeSources', () => {
+        test('should normalize the rows of all the parts', async () => {
+            fs.writeFileSync('./output/files/normalize-1.csv', 'id,day\n1,05/01/2024\n');
+            fs.writeFileSync('./output/files/normalize-2.csv', 'id;day\n2;"25/12/2024"\n3;x');
+            const input = normalizeSources({
+                sources: [{ filename: './output/files/normalize-1.csv' }, { filename: './output/files/normalize-2.csv', delimiter: ';' }],
+                destination: { filename: '' },
+                schema: [],
+                select: [],
+                orderBy: [],
+                sqlite: { filename: '' },
+                logger: () => {},
+            }, [undefined, createNormalizer({ name: 'day', type: 'date', format: 'DD/MM/YYYY' })]);
+            expect(await readAll(input)).toBe('id,day\n1,2024-01-05\n2,2024-12-25\n3,x\n');
+        });
+    });
+});
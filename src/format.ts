@@ -0,0 +1,343 @@
+import { Readable } from 'stream';
+import { createFileReadStream } from './compression';
+import { createRecordParser, formatCsvRecord, getRecordText } from './csv';
+import { SourceDecoder } from './encoding';
+import type { SortKey } from './collation';
+import type { RowRejecter } from './reject';
+import { toNumeric } from './numeric';
+import { toSqlLiteral } from './sql';
+import { ValidationError } from './validation';
+import type { ColumnType, SchemaColumn, SorterOptions } from './sorter';
+
+/**
+ * A function converting a value of the source file to its sortable storage.
+ */
+export type ValueNormalizer = (value: string) => string;
+
+/**
+ * A function converting a stored value to the format of the destination file.
+ */
+export type ValueFormatter = (value: string | null) => string | null;
+
+const defaultBooleans = [['true', 'false'], ['yes', 'no'], ['y', 'n'], ['t', 'f'], ['1', '0']];
+
+const dateTokens = /YYYY|SSS|MM|DD|HH|mm|ss|M|D|H/g;
+
+const tokenPatterns: Record<string, string> = {
+    YYYY: '(\\d{4})',
+    SSS: '(\\d{3})',
+    MM: '(\\d{2})',
+    DD: '(\\d{2})',
+    HH: '(\\d{2})',
+    mm: '(\\d{2})',
+    ss: '(\\d{2})',
+    M: '(\\d{1,2})',
+    D: '(\\d{1,2})',
+    H: '(\\d{1,2})',
+};
+
+// the positions of the tokens in the stored values: YYYY-MM-DD HH:mm:ss.SSS
+const tokenPositions: Record<string, { start: number, length: number, padded: boolean }> = {
+    YYYY: { start: 0, length: 4, padded: true },
+    MM: { start: 5, length: 2, padded: true },
+    M: { start: 5, length: 2, padded: false },
+    DD: { start: 8, length: 2, padded: true },
+    D: { start: 8, length: 2, padded: false },
+    HH: { start: 11, length: 2, padded: true },
+    H: { start: 11, length: 2, padded: false },
+    mm: { start: 14, length: 2, padded: true },
+    ss: { start: 17, length: 2, padded: true },
+    SSS: { start: 20, length: 3, padded: true },
+};
+
+const storedDate = /^\d{4}-\d{2}-\d{2}/;
+
+type DateFormatPart = { token: string } | { literal: string };
+
+/**
+ * Indicates whether the values of a column type are stored as numbers.
+ */
+export function isNumericType(type?: ColumnType): boolean {
+    return type === 'number' || type === 'integer' || type === 'real' || type === 'boolean';
+}
+
+function parseDateFormat(format: string): DateFormatPart[] {
+    const parts: DateFormatPart[] = [];
+    let last = 0;
+    for (const match of format.matchAll(dateTokens)) {
+        if (match.index! > last) {
+            parts.push({ literal: format.slice(last, match.index) });
+        }
+        parts.push({ token: match[0] });
+        last = match.index! + match[0].length;
+    }
+    if (last < format.length) {
+        parts.push({ literal: format.slice(last) });
+    }
+    return parts;
+}
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function createDateNormalizer(column: SchemaColumn, format: string): ValueNormalizer {
+    const parts = parseDateFormat(format);
+    const tokens = parts.flatMap(part => 'token' in part ? [part.token] : []);
+    const has = (...names: string[]) => names.some(name => tokens.includes(name));
+    if (!has('YYYY') || !has('MM', 'M') || !has('DD', 'D')) {
+        throw new ValidationError(`The format '${format}' of column '${column.name}' must contain the year, the month and the day!`);
+    }
+    const pattern = parts.map(part => 'token' in part ? tokenPatterns[part.token] : part.literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('');
+    const matcher = new RegExp(`^${pattern}$`);
+    const withTime = column.type === 'datetime';
+    const withMillis = withTime && has('SSS');
+    return value => {
+        const match = matcher.exec(value);
+        if (!match) {
+            return value;
+        }
+        const fields: Record<string, number> = { HH: 0, mm: 0, ss: 0, SSS: 0 };
+        tokens.forEach((token, idx) => fields[token.length === 1 ? token + token : token] = parseInt(match[idx + 1]));
+        const { YYYY, MM, DD, HH, mm, ss, SSS } = fields;
+        if (MM < 1 || MM > 12 || DD < 1 || DD > daysInMonth(YYYY, MM) || HH > 23 || mm > 59 || ss > 59) {
+            return value;
+        }
+        const pad = (n: number, length = 2) => String(n).padStart(length, '0');
+        let result = `${pad(YYYY, 4)}-${pad(MM)}-${pad(DD)}`;
+        if (withTime) {
+            result += ` ${pad(HH)}:${pad(mm)}:${pad(ss)}`;
+        }
+        if (withMillis) {
+            result += `.${pad(SSS, 3)}`;
+        }
+        return result;
+    };
+}
+
+function parseBooleanFormat(column: SchemaColumn, format: string): [string, string] {
+    const values = format.split('/');
+    if (values.length !== 2 || values[0] === values[1]) {
+        throw new ValidationError(`The format '${format}' of column '${column.name}' must contain the true and false values separated by a slash!`);
+    }
+    return [values[0], values[1]];
+}
+
+function createBooleanNormalizer(column: SchemaColumn): ValueNormalizer {
+    const pairs = column.format ? [parseBooleanFormat(column, column.format)] : defaultBooleans;
+    const values = new Map<string, string>();
+    for (const [trueValue, falseValue] of pairs) {
+        values.set(trueValue.toLowerCase(), '1');
+        values.set(falseValue.toLowerCase(), '0');
+    }
+    return value => values.get(value.toLowerCase()) ?? value;
+}
+
+function parseNumberFormat(column: SchemaColumn, format: string): { grouping?: string, decimal?: string } {
+    const separators = [...new Set(format.replace(/[#0]/g, ''))];
+    if (separators.length > 2 || !/^[#0]/.test(format)) {
+        throw new ValidationError(`The format '${format}' of column '${column.name}' must be made of # and 0 with a grouping separator and a decimal separator!`);
+    }
+    if (separators.length === 2) {
+        return { grouping: separators[0], decimal: separators[1] };
+    }
+    if (separators.length === 1) {
+        const separator = separators[0];
+        // a single separator is a grouping separator when it is repeated or followed by exactly 3 digits
+        const isGrouping = format.indexOf(separator) !== format.lastIndexOf(separator) || format.length - format.lastIndexOf(separator) === 4;
+        return isGrouping ? { grouping: separator } : { decimal: separator };
+    }
+    return {};
+}
+
+function createNumberNormalizer(column: SchemaColumn, format: string): ValueNormalizer {
+    const { grouping, decimal } = parseNumberFormat(column, format);
+    return value => {
+        let result = value;
+        if (grouping) {
+            result = result.replaceAll(grouping, '');
+        }
+        if (decimal) {
+            result = result.replaceAll(decimal, '.');
+        }
+        return toNumeric(result) ? result.trim() : value;
+    };
+}
+
+function supportsOutputFormat(column: SchemaColumn): boolean {
+    return column.type === 'date' || column.type === 'datetime' || column.type === 'boolean';
+}
+
+function validateFormats(column: SchemaColumn) {
+    const supportsFormat = column.type && column.type !== 'string' && column.type !== 'number';
+    if (column.format !== undefined && !supportsFormat) {
+        throw new ValidationError(`The column '${column.name}' of type '${column.type ?? 'string'}' does not support a format!`);
+    }
+    if (column.outputFormat !== undefined && !supportsOutputFormat(column)) {
+        throw new ValidationError(`The column '${column.name}' of type '${column.type ?? 'string'}' does not support an output format!`);
+    }
+}
+
+/**
+ * Creates the function converting the values of a column to their sortable storage:
+ * dates are stored as YYYY-MM-DD, datetimes as YYYY-MM-DD HH:mm:ss, booleans as 1 or 0
+ * and numbers without their grouping separator and with a dot as decimal separator.
+ * The values that don't match the format are kept as is.
+ * @param column the column of the schema
+ * @returns the normalizer, or undefined when the values are already stored as is
+ */
+export function createNormalizer(column: SchemaColumn): ValueNormalizer | undefined {
+    validateFormats(column);
+    if (column.type === 'boolean') {
+        return createBooleanNormalizer(column);
+    }
+    if (column.format === undefined) {
+        return undefined;
+    }
+    if (column.type === 'date' || column.type === 'datetime') {
+        return createDateNormalizer(column, column.format);
+    }
+    return createNumberNormalizer(column, column.format);
+}
+
+function getOutputFormat(column: SchemaColumn): string | undefined {
+    validateFormats(column);
+    return supportsOutputFormat(column) ? column.outputFormat ?? column.format : undefined;
+}
+
+/**
+ * Creates the function converting the stored values of a column to the output format.
+ * It produces the same values as the SQL expression returned by toSqlFormatter.
+ * @param column the column of the schema
+ * @returns the formatter, or undefined when the values are written as stored
+ */
+export function createFormatter(column: SchemaColumn): ValueFormatter | undefined {
+    const format = getOutputFormat(column);
+    if (format === undefined) {
+        return undefined;
+    }
+    if (column.type === 'boolean') {
+        const [trueValue, falseValue] = parseBooleanFormat(column, format);
+        return value => value === '1' ? trueValue : value === '0' ? falseValue : value;
+    }
+    const parts = parseDateFormat(format);
+    return value => {
+        if (value === null || !storedDate.test(value)) {
+            return value;
+        }
+        return parts.map(part => {
+            if ('literal' in part) {
+                return part.literal;
+            }
+            const position = tokenPositions[part.token];
+            const text = value.substring(position.start, position.start + position.length) || '0'.repeat(position.length);
+            return position.padded ? text : String(parseInt(text));
+        }).join('');
+    };
+}
+
+/**
+ * Creates the SQL expression converting the stored values of a column to the output format.
+ * @param column the column of the schema
+ * @param name the quoted name of the column
+ * @returns the expression, or undefined when the values are written as stored
+ */
+export function toSqlFormatter(column: SchemaColumn, name: string): string | undefined {
+    const format = getOutputFormat(column);
+    if (format === undefined) {
+        return undefined;
+    }
+    if (column.type === 'boolean') {
+        const [trueValue, falseValue] = parseBooleanFormat(column, format);
+        return `case ${name} when 1 then ${toSqlLiteral(trueValue)} when 0 then ${toSqlLiteral(falseValue)} else ${name} end`;
+    }
+    const parts = parseDateFormat(format).map(part => {
+        if ('literal' in part) {
+            return toSqlLiteral(part.literal);
+        }
+        const position = tokenPositions[part.token];
+        const text = `coalesce(nullif(substr(${name}, ${position.start + 1}, ${position.length}), ''), '${'0'.repeat(position.length)}')`;
+        return position.padded ? text : `cast(${text} as integer)`;
+    });
+    return `case when ${name} glob '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]*' then ${parts.join(' || ')} else ${name} end`;
+}
+
+/**
+ * Creates the function converting the values of a record to their sortable storage.
+ * The sort keys are appended to the record, after the columns of the schema.
+ * @param columnCount the number of columns of the schema
+ * @param normalizers the normalizers of the columns, indexed by position
+ * @param sortKeys the hidden columns holding the sort keys
+ */
+export function createRecordNormalizer(columnCount: number, normalizers: (ValueNormalizer | undefined)[], sortKeys: SortKey[] = []): (record: string[]) => string[] {
+    return record => {
+        const values = record.map((value, col) => normalizers[col]?.(value) ?? value);
+        if (sortKeys.length === 0) {
+            return values;
+        }
+        // the missing values are completed, so that the sort keys follow the last column of the schema
+        const columns = Array.from({ length: columnCount }, (_value, col) => values[col] ?? '');
+        return columns.concat(sortKeys.map(key => key.generate(columns[key.column])));
+    };
+}
+
+/**
+ * Reads the sources and converts their values to their sortable storage.
+ * The header of the first source is kept and the rows are written as CSV with a comma delimiter.
+ * The sort keys are appended to the rows, after the columns of the schema.
+ * @param options the options of the sort
+ * @param normalizers the normalizers of the columns, indexed by position
+ * @param sortKeys the hidden columns holding the sort keys
+ * @param rejecter the rejecter dropping the malformed rows, which are imported as they are otherwise
+ */
+export function normalizeSources(options: SorterOptions, normalizers: (ValueNormalizer | undefined)[], sortKeys: SortKey[] = [], rejecter?: RowRejecter): Readable {
+    const normalize = createRecordNormalizer(options.schema.length, normalizers, sortKeys);
+    // the sources are captured, since the options will describe the normalized stream
+    const { sources, input: inputStream } = options;
+    // the fields of the ndjson objects are picked by the names of the schema
+    const columns = options.schema.length > 0 ? options.schema.map(col => col.name) : undefined;
+    let columnCount = options.schema.length;
+    async function* generate() {
+        try {
+            for (let idx = 0; idx < sources.length; idx++) {
+                const source = sources[idx];
+                const filename = inputStream ? 'input' : source.filename;
+                const input: Readable = inputStream ?? createFileReadStream(source);
+                const parser = createRecordParser(source, columns, rejecter && ((lineNumber, text, reason) => rejecter.reject(filename, lineNumber, text, reason)));
+                const decoder = new SourceDecoder(source.encoding);
+                let headerRead = false;
+                // the header of a file without header is generated, so it is not counted as a line
+                let line = source.hasHeader === false ? 0 : 1;
+                // the empty chunks are skipped, since they would never be written to the SQLite pipe
+                const format = function* (records: string[][]) {
+                    const text = records.map(record => {
+                        if (!headerRead) {
+                            headerRead = true;
+                            columnCount ||= record.length;
+                            // the header of the following parts is skipped
+                            return idx === 0 ? formatCsvRecord(record, ',') : '';
+                        }
+                        line++;
+                        if (rejecter && record.length > columnCount) {
+                            // only the csv records can have extra fields, and their text is kept since there is a rejecter
+                            rejecter.reject(filename, line, getRecordText(record)!, `expected ${columnCount} columns but found ${record.length}`);
+                            return '';
+                        }
+                        return formatCsvRecord(normalize(record), ',');
+                    }).join('');
+                    if (text) {
+                        yield text;
+                    }
+                };
+                for await (const data of input) {
+                    yield* format(parser.push(decoder.write(data)));
+                    await rejecter?.flush();
+                }
+                yield* format(parser.push(decoder.end()).concat(parser.flush()));
+            }
+        } finally {
+            await rejecter?.close();
+        }
+    }
+    return Readable.from(generate());
+}
@@ -0,0 +1,73 @@
+import { PassThrough } from 'stream';
+import { isJsonFormat, JsonWriter } from './json';
+import type { ColumnType } from './sorter';
+
+async function convert(chunks: string[], array: boolean, types: Record<string, ColumnType>, emptyAsNull = false): Promise<string> {
+    const output = new PassThrough();
+    let text = '';
+    output.on('data', chunk => text += chunk.toString());
+    const writer = new JsonWriter(output, array, new Map(Object.entries(types)), emptyAsNull);
+    for (const chunk of chunks) {
+        writer.write(chunk);
+    }
+    writer.end();
+    await new Promise((resolve, reject) => writer.on('finish', resolve).on('error', reject));
+    return text;
+}
+
+describe('json', () => {
+    describe('isJsonFormat', () => {
+        test('should detect the json formats', () => {
+            expect(isJsonFormat({ filename: 'out.ndjson', format: 'ndjson' })).toBe(true);
+            expect(isJsonFormat({ filename: 'out.json', format: 'json' })).toBe(true);
+            expect(isJsonFormat({ filename: 'out.json' })).toBe(false);
+            expect(isJsonFormat({ filename: 'out.tsv', format: 'tsv' })).toBe(false);
+        });
+    });
+    describe('JsonWriter', () => {
+        test('should write a JSON object per line', async () => {
+            const text = await convert(['id,"the name",amount\n1,"a ""b""",1', '2.50\n2,,-3\n3,c,Inf\n'], false, { id: 'integer', amount: 'real' });
+            expect(text).toBe(`{"id":1,"the name":"a \\"b\\"","amount":12.50}
+{"id":2,"the name":"","amount":-3}
+{"id":3,"the name":"c","amount":"Inf"}
+`);
+        });
+        test('should write a JSON array', async () => {
+            const text = await convert(['ID,big\n1,12345678901234567890\n2,0x10\n'], true, { id: 'number', big: 'number' });
+            expect(text).toBe(`[
+{"ID":1,"big":12345678901234567890},
+{"ID":2,"big":"0x10"}
+]
+`);
+            expect(JSON.parse(text)).toEqual([{ ID: 1, big: 12345678901234567890 }, { ID: 2, big: '0x10' }]);
+        });
+        test('should write the empty and missing values as null', async () => {
+            const text = await convert(['id,name,age\n,,\n1'], false, { age: 'integer' }, true);
+            expect(text).toBe(`{"id":null,"name":null,"age":null}
+{"id":"1","name":null,"age":null}
+`);
+        });
+        test('should write an empty array without rows', async () => {
+            expect(await convert([], true, {})).toBe('[]\n');
+            expect(await convert(['id\n'], true, {})).toBe('[]\n');
+            expect(await convert([], false, {})).toBe('');
+        });
+        test('should wait for the output to drain', async () => {
+            const output = new PassThrough({ highWaterMark: 16 });
+            const writer = new JsonWriter(output, false, new Map(), false);
+            const rows = Array.from({ length: 100 }, (_value, i) => `${i}\n`);
+            writer.end(['id\n', ...rows].join(''));
+            let text = '';
+            for await (const chunk of output) {
+                text += chunk.toString();
+            }
+            expect(text.split('\n')).toHaveLength(101);
+        });
+        test('should destroy the output', async () => {
+            const output = new PassThrough();
+            const writer = new JsonWriter(output, false, new Map(), false);
+            writer.destroy();
+            expect(output.destroyed).toBe(true);
+        });
+    });
+});
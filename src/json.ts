@@ -0,0 +1,100 @@
+import { once } from 'events';
+import { StringDecoder } from 'string_decoder';
+import { Writable } from 'stream';
+import { finished } from 'stream/promises';
+import { CsvParser, CsvRecord } from './csv';
+import { isNumericType } from './format';
+import type { ColumnType, FileOptions } from './sorter';
+
+// the numbers written by SQLite that are valid JSON numbers, as opposed to values such as Inf or 0x10
+const jsonNumber = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+/**
+ * Indicates whether a file is written as JSON, either as JSON lines or as a JSON array.
+ * @param file the options of the file
+ */
+export function isJsonFormat(file: FileOptions): boolean {
+    return file.format === 'ndjson' || file.format === 'json';
+}
+
+/**
+ * A writable stream receiving the sorted CSV rows and writing them to another stream as JSON objects,
+ * either one object per line (ndjson) or as a JSON array (json).
+ * The values of the numeric columns are written as JSON numbers and the other values as JSON strings.
+ */
+export class JsonWriter extends Writable {
+    private decoder = new StringDecoder('utf8');
+    private parser = new CsvParser();
+    private header: CsvRecord | undefined;
+    private numeric: boolean[] = [];
+    private rowCount = 0;
+
+    /**
+     * @param output the stream receiving the JSON text
+     * @param array true for writing a JSON array, false for writing JSON lines
+     * @param types the types of the columns, indexed by their lower case name
+     * @param emptyAsNull true for writing the empty values as null
+     */
+    constructor(private output: Writable, private array: boolean, private types: Map<string, ColumnType | undefined>, private emptyAsNull: boolean) {
+        super();
+    }
+
+    override _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+        this.writeRecords(this.parser.push(this.decoder.write(chunk))).then(() => callback(), callback);
+    }
+
+    override _final(callback: (error?: Error | null) => void): void {
+        const records = this.parser.push(this.decoder.end()).concat(this.parser.flush());
+        this.writeRecords(records)
+            .then(() => this.close())
+            .then(() => callback(), callback);
+    }
+
+    override _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+        this.output.destroy();
+        callback(error);
+    }
+
+    private async writeRecords(records: CsvRecord[]) {
+        let text = '';
+        for (const record of records) {
+            if (!this.header) {
+                this.header = record;
+                this.numeric = record.map(name => isNumericType(this.types.get(name.toLowerCase())));
+                continue;
+            }
+            const separator = !this.array ? '' : this.rowCount === 0 ? '[\n' : ',\n';
+            text += separator + this.toJson(record) + (this.array ? '' : '\n');
+            this.rowCount++;
+        }
+        await this.writeText(text);
+    }
+
+    private toJson(record: CsvRecord): string {
+        const fields = this.header!.map((name, idx) => `${JSON.stringify(name)}:${this.toJsonValue(record[idx], this.numeric[idx])}`);
+        return `{${fields.join(',')}}`;
+    }
+
+    private toJsonValue(value: string | undefined, numeric: boolean): string {
+        if (value === undefined || (value === '' && this.emptyAsNull)) {
+            return 'null';
+        }
+        // the numbers are written as they are, so that the big integers keep their precision
+        return numeric && jsonNumber.test(value) ? value : JSON.stringify(value);
+    }
+
+    private async writeText(text: string) {
+        if (text && !this.output.write(text)) {
+            await once(this.output, 'drain');
+        }
+    }
+
+    private async close() {
+        // SQLite doesn't write the header of an empty result
+        if (this.array) {
+            await this.writeText(this.rowCount > 0 ? '\n]\n' : '[]\n');
+        }
+        this.output.end();
+        await finished(this.output);
+    }
+}
@@ -0,0 +1,339 @@
+import fs from 'fs';
+import { Readable, Writable } from 'stream';
+import { compareKeys, compareText, formatReal, toNumeric } from './merge';
+import { AbortError, ProgressEvent, sort, sortStream } from './sorter';
+import { captureStdout } from './testing';
+
+function readAllText(path: string): string {
+    return fs.readFileSync(path).toString();
+}
+
+describe('merge', () => {
+    beforeAll(() => {
+        if(!fs.existsSync('./output')) {
+            fs.mkdirSync('./output');
+        }
+        if(!fs.existsSync('./output/files')) {
+            fs.mkdirSync('./output/files');
+        }
+    });
+    describe('formatReal', () => {
+        test('should use the fixed notation for common numbers', () => {
+            expect(formatReal(0.2)).toBe('0.2');
+            expect(formatReal(-3.25)).toBe('-3.25');
+            expect(formatReal(0.0001)).toBe('0.0001');
+            expect(formatReal(123456789012345.6)).toBe('123456789012346.0');
+        });
+        test('should use the exponent notation for small and large numbers', () => {
+            expect(formatReal(1e-7)).toBe('1.0e-07');
+            expect(formatReal(-1.5e20)).toBe('-1.5e+20');
+            expect(formatReal(1.2345678901234567e300)).toBe('1.23456789012346e+300');
+        });
+        test('should format infinity', () => {
+            expect(formatReal(Infinity)).toBe('Inf');
+            expect(formatReal(-Infinity)).toBe('-Inf');
+        });
+    });
+    describe('toNumeric', () => {
+        test('should convert integers', () => {
+            expect(toNumeric('42')).toEqual({ value: 42, text: '42' });
+            expect(toNumeric(' +7 ')).toEqual({ value: 7, text: '7' });
+            expect(toNumeric('-0')).toEqual({ value: 0, text: '0' });
+            expect(toNumeric('9007199254740993')).toEqual({ value: 9007199254740992, text: '9007199254740993' });
+        });
+        test('should convert reals without fractional part to integers', () => {
+            expect(toNumeric('1.0')).toEqual({ value: 1, text: '1' });
+            expect(toNumeric('1e3')).toEqual({ value: 1000, text: '1000' });
+        });
+        test('should convert reals', () => {
+            expect(toNumeric('.5')).toEqual({ value: 0.5, text: '0.5' });
+            expect(toNumeric('12345678901234567890')).toEqual({ value: 12345678901234567000, text: '1.23456789012346e+19' });
+            expect(toNumeric('1e400')).toEqual({ value: Infinity, text: 'Inf' });
+        });
+        test('should ignore texts', () => {
+            expect(toNumeric('')).toBeUndefined();
+            expect(toNumeric('abc')).toBeUndefined();
+            expect(toNumeric('0x10')).toBeUndefined();
+            expect(toNumeric('1.2.3')).toBeUndefined();
+        });
+    });
+    describe('compareText', () => {
+        test('should compare by code point', () => {
+            expect(compareText('a', 'b')).toBeLessThan(0);
+            expect(compareText('ab', 'a')).toBeGreaterThan(0);
+            expect(compareText('abc', 'abc')).toBe(0);
+            expect(compareText('～', '\u{1F600}')).toBeLessThan(0);
+            expect(compareText('\u{1F600}', '～')).toBeGreaterThan(0);
+        });
+    });
+    describe('compareKeys', () => {
+        test('should put nulls first, then numbers and texts', () => {
+            expect(compareKeys(null, null)).toBe(0);
+            expect(compareKeys(null, 1)).toBeLessThan(0);
+            expect(compareKeys('a', null)).toBeGreaterThan(0);
+            expect(compareKeys(1, 2)).toBeLessThan(0);
+            expect(compareKeys(2, 1)).toBeGreaterThan(0);
+            expect(compareKeys(2, 'a')).toBeLessThan(0);
+            expect(compareKeys('a', 2)).toBeGreaterThan(0);
+            expect(compareKeys('b', 'a')).toBeGreaterThan(0);
+        });
+    });
+    describe('MergeSortEngine', () => {
+        test('should merge the run files in several passes', async () => {
+            const rowCount = 300;
+            const lines = ['id,name'];
+            for (let i = rowCount; i > 0; i--) {
+                lines.push(`${i},name ${i}`);
+            }
+            fs.writeFileSync('./output/files/merge-passes.csv', lines.join('\n') + '\n');
+            const logs: string[] = [];
+            await sort({
+                source: './output/files/merge-passes.csv',
+                destination: './output/files/merge-passes.sorted.csv',
+                schema: [{ name: 'id', type: 'number' }, 'name'],
+                orderBy: ['id'],
+                engine: 'merge',
+                merge: {
+                    memoryBudget: 1,
+                },
+                logger: msg => logs.push(msg),
+            });
+            const output = readAllText('./output/files/merge-passes.sorted.csv').split('\n');
+            expect(output.length).toBe(rowCount + 2);
+            expect(output[1]).toBe('1,"name 1"');
+            expect(output[rowCount]).toBe(`${rowCount},"name ${rowCount}"`);
+            expect(logs.filter(x => x.startsWith('Write run file')).length).toBe(rowCount + 5);
+            expect(logs).toContain('Merge 5 run files');
+        });
+        test('should respect the backpressure of the output', async () => {
+            const rowCount = 5000;
+            const lines = ['id,name'];
+            for (let i = rowCount; i > 0; i--) {
+                lines.push(`${i},name ${i}`);
+            }
+            const chunks: string[] = [];
+            const output = new Writable({
+                highWaterMark: 16,
+                write(chunk, _encoding, callback) {
+                    chunks.push(chunk.toString());
+                    setImmediate(callback);
+                },
+            });
+            await sortStream({
+                input: Readable.from([lines.join('\n')]),
+                output,
+                schema: [{ name: 'id', type: 'number' }, 'name'],
+                orderBy: ['id'],
+                engine: 'merge',
+            });
+            const result = chunks.join('').split('\n');
+            expect(chunks.length).toBeGreaterThan(1);
+            expect(result.length).toBe(rowCount + 2);
+            expect(result[rowCount]).toBe(`${rowCount},"name ${rowCount}"`);
+        });
+        test('should fail when the output fails', async () => {
+            const lines = ['id,name'];
+            for (let i = 20000; i > 0; i--) {
+                lines.push(`${i},name ${i}`);
+            }
+            const output = new Writable({
+                highWaterMark: 1024 * 1024,
+                write(_chunk, _encoding, callback) {
+                    setImmediate(() => callback(new Error('disk full')));
+                },
+            });
+            await expect(async () => {
+                await sortStream({
+                    input: Readable.from([lines.join('\n')]),
+                    output,
+                    orderBy: ['id'],
+                    engine: 'merge',
+                    merge: {
+                        memoryBudget: 64 * 1024,
+                    },
+                });
+            }).rejects.toThrow('disk full');
+        });
+        test('should fill the missing columns', async () => {
+            fs.writeFileSync('./output/files/merge-missing.csv', 'id,name,age\n2,mary\n1,john,12\n');
+            await sort({
+                source: './output/files/merge-missing.csv',
+                destination: './output/files/merge-missing.sorted.csv',
+                orderBy: ['id'],
+                engine: 'merge',
+            });
+            const output = readAllText('./output/files/merge-missing.sorted.csv');
+            expect(output).toBe(`id,name,age
+1,john,12
+2,mary,
+`);
+        });
+        test('should produce an empty file for an empty source', async () => {
+            fs.writeFileSync('./output/files/merge-empty.csv', '');
+            await sort({
+                source: './output/files/merge-empty.csv',
+                destination: './output/files/merge-empty.sorted.csv',
+                orderBy: ['id'],
+                engine: 'merge',
+            });
+            expect(readAllText('./output/files/merge-empty.sorted.csv')).toBe('');
+        });
+        test('should fail when a row has too many columns', async () => {
+            await expect(async () => {
+                await sort({
+                    source: './tests/unordered-id.csv',
+                    destination: './output/files/unordered-id.sorted.csv',
+                    schema: ['id', 'age'],
+                    orderBy: ['id'],
+                    engine: 'merge',
+                });
+            }).rejects.toThrow('./tests/unordered-id.csv:2: expected 2 columns but found 3');
+            await expect(async () => {
+                await sortStream({
+                    input: Readable.from(['id,name\n', '1,john,12\n']),
+                    output: fs.createWriteStream('./output/files/unordered-id.sorted.csv'),
+                    orderBy: ['id'],
+                    engine: 'merge',
+                });
+            }).rejects.toThrow('input:2: expected 2 columns but found 3');
+        });
+        test('should not end the standard output', async () => {
+            const end = jest.spyOn(process.stdout, 'end');
+            try {
+                const { text } = await captureStdout(() => sortStream({
+                    input: Readable.from(['id,name\n', '2,jane\n', '1,john\n']),
+                    output: process.stdout,
+                    orderBy: ['id'],
+                    engine: 'merge',
+                }));
+                expect(text).toBe('id,name\n1,john\n2,jane\n');
+                expect(end).not.toHaveBeenCalled();
+            } finally {
+                end.mockRestore();
+            }
+        });
+        test('should fail with an unknown column', async () => {
+            await expect(async () => {
+                await sort({
+                    source: './tests/unordered-id.csv',
+                    destination: './output/files/unordered-id.sorted.csv',
+                    orderBy: ['code'],
+                    engine: 'merge',
+                });
+            }).rejects.toThrow('no such column: code');
+        });
+        test('should not support the distinct option', async () => {
+            await expect(async () => {
+                await sort({
+                    source: './tests/unordered-id.csv',
+                    destination: './output/files/unordered-id.sorted.csv',
+                    orderBy: ['id'],
+                    distinct: ['id'],
+                    engine: 'merge',
+                });
+            }).rejects.toThrow('The distinct option is not supported by the merge engine!');
+        });
+        test('should not support the join option', async () => {
+            await expect(async () => {
+                await sort({
+                    source: './tests/unordered-id.csv',
+                    destination: './output/files/unordered-id.sorted.csv',
+                    join: { source: './tests/lookup-teams.csv', keys: ['id'] },
+                    orderBy: ['id'],
+                    engine: 'merge',
+                });
+            }).rejects.toThrow('The join option is not supported by the merge engine!');
+        });
+        test('should not support the computed columns', async () => {
+            await expect(async () => {
+                await sort({
+                    source: './tests/unordered-id.csv',
+                    destination: './output/files/unordered-id.sorted.csv',
+                    select: ['id', { expression: 'age * 2', as: 'double' }],
+                    orderBy: ['id'],
+                    engine: 'merge',
+                });
+            }).rejects.toThrow('The computed columns are not supported by the merge engine!');
+        });
+        test('should require an existing temp folder', async () => {
+            await expect(async () => {
+                await sort({
+                    source: './tests/unordered-id.csv',
+                    destination: './output/files/unordered-id.sorted.csv',
+                    orderBy: ['id'],
+                    engine: 'merge',
+                    merge: {
+                        tempDir: './output/should-not-exist',
+                    },
+                });
+            }).rejects.toThrow(`Folder './output/should-not-exist' does not exist!`);
+        });
+    });
+    describe('progress and abort', () => {
+        test('should report the bytes and rows of each phase', async () => {
+            const events: ProgressEvent[] = [];
+            await sort({
+                source: './tests/unordered-id.csv',
+                destination: './output/files/merge-progress.sorted.csv',
+                orderBy: ['id'],
+                engine: 'merge',
+                onProgress: event => events.push(event),
+            });
+            const inputBytes = fs.statSync('./tests/unordered-id.csv').size;
+            const outputBytes = fs.statSync('./output/files/merge-progress.sorted.csv').size;
+            expect(events[0]).toEqual({ phase: 'import' });
+            expect(events).toContainEqual({ phase: 'import', bytes: inputBytes, rows: 6 });
+            expect(events).toContainEqual({ phase: 'export' });
+            expect(events[events.length - 1]).toEqual({ phase: 'export', bytes: outputBytes, rows: 6 });
+        });
+        test('should delete the partial destination when aborted during the export', async () => {
+            const controller = new AbortController();
+            const lines = ['id,name'];
+            for (let i = 20000; i > 0; i--) {
+                lines.push(`${i},name ${i}`);
+            }
+            fs.writeFileSync('./output/files/merge-abort.csv', lines.join('\n') + '\n');
+            fs.mkdirSync('./output/merge-abort', { recursive: true });
+            await expect(async () => {
+                await sort({
+                    source: './output/files/merge-abort.csv',
+                    destination: './output/files/merge-abort.sorted.csv',
+                    orderBy: ['id'],
+                    engine: 'merge',
+                    merge: {
+                        tempDir: './output/merge-abort',
+                    },
+                    onProgress: event => {
+                        if (event.phase === 'export' && event.bytes) {
+                            controller.abort();
+                        }
+                    },
+                    signal: controller.signal,
+                });
+            }).rejects.toThrow(AbortError);
+            expect(fs.existsSync('./output/files/merge-abort.sorted.csv')).toBe(false);
+            expect(fs.readdirSync('./output/merge-abort')).toEqual([]);
+        });
+        test('should stop writing the run files when aborted during the import', async () => {
+            const controller = new AbortController();
+            await expect(async () => {
+                await sort({
+                    source: './output/files/merge-abort.csv',
+                    destination: './output/files/merge-abort.sorted.csv',
+                    orderBy: ['id'],
+                    engine: 'merge',
+                    merge: {
+                        memoryBudget: 64 * 1024,
+                    },
+                    onProgress: event => {
+                        if (event.rows) {
+                            controller.abort();
+                        }
+                    },
+                    signal: controller.signal,
+                });
+            }).rejects.toThrow('The sort was aborted');
+            expect(fs.existsSync('./output/files/merge-abort.sorted.csv')).toBe(false);
+        });
+    });
+});
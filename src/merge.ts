@@ -0,0 +1,563 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import { once } from 'events';
+import { Readable, Writable } from 'stream';
+import { removePartialOutputs, throwIfAborted } from './abort';
+import { createFileReadStream } from './compression';
+import { createRecordParser, CsvRecord, formatCsvRecord } from './csv';
+import { SourceDecoder } from './encoding';
+import { createFormatter, isNumericType, ValueFormatter } from './format';
+import { formatReal, toNumeric } from './numeric';
+import { isStandardOutput, waitForOutput } from './output';
+import { sameColumnName } from './sql';
+import { ValidationError } from './validation';
+import type { SortEngine, SorterOptions, SortResult } from './sorter';
+
+export { formatReal, toNumeric } from './numeric';
+
+/**
+ * The default amount of memory used for sorting the rows, before they are flushed to a temporary run file.
+ */
+export const defaultMemoryBudget = 64 * 1024 * 1024;
+
+/**
+ * The maximum number of run files merged at once.
+ */
+const mergeFanIn = 64;
+
+type Value = string | null;
+type Key = string | number | null;
+
+interface Column {
+    name: string;
+    numeric: boolean;
+    real: boolean;
+    hidden?: boolean;
+    formatter?: ValueFormatter;
+}
+
+/**
+ * A column of the orderBy option, with the collation and the position of its empty values.
+ */
+interface OrderKey {
+    index: number;
+    nocase: boolean;
+    /**
+     * The key of the empty values, before the key of the value, when the nulls position is given
+     */
+    emptyFlag?: number;
+}
+
+interface Row {
+    seq: number;
+    raw: Value[];
+    values: Value[];
+    keys: Key[];
+    size: number;
+}
+
+interface Table {
+    columns: Column[];
+    rows: AsyncIterable<Row>;
+}
+
+/**
+ * Compares two texts by code point, like the BINARY collation of SQLite.
+ */
+export function compareText(a: string, b: string): number {
+    const length = Math.min(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+        const ca = a.charCodeAt(i);
+        const cb = b.charCodeAt(i);
+        if (ca !== cb) {
+            return toCodePointOrder(ca) - toCodePointOrder(cb);
+        }
+    }
+    return a.length - b.length;
+}
+
+function toCodePointOrder(c: number): number {
+    // surrogate pairs encode the code points above U+FFFF
+    if (c >= 0xD800 && c <= 0xDFFF) {
+        return c + 0x2000;
+    }
+    if (c >= 0xE000) {
+        return c - 0x800;
+    }
+    return c;
+}
+
+/**
+ * Compares two keys like SQLite: NULL values come first, then numbers and then texts.
+ */
+export function compareKeys(a: Key, b: Key): number {
+    if (a === b) {
+        return 0;
+    }
+    if (a === null || b === null) {
+        return a === null ? -1 : 1;
+    }
+    if (typeof a === 'number' || typeof b === 'number') {
+        if (typeof a === 'number' && typeof b === 'number') {
+            return a < b ? -1 : 1;
+        }
+        return typeof a === 'number' ? -1 : 1;
+    }
+    return compareText(a, b);
+}
+
+class RowHeap<T> {
+    private items: T[] = [];
+
+    constructor(private compare: (a: T, b: T) => number) {
+    }
+
+    get size() {
+        return this.items.length;
+    }
+
+    push(item: T) {
+        const items = this.items;
+        items.push(item);
+        let idx = items.length - 1;
+        while (idx > 0) {
+            const parent = (idx - 1) >> 1;
+            if (this.compare(items[idx], items[parent]) >= 0) {
+                break;
+            }
+            [items[idx], items[parent]] = [items[parent], items[idx]];
+            idx = parent;
+        }
+    }
+
+    pop(): T {
+        const items = this.items;
+        const top = items[0];
+        const last = items.pop()!;
+        if (items.length > 0) {
+            items[0] = last;
+            let idx = 0;
+            for (;;) {
+                const left = idx * 2 + 1;
+                const right = left + 1;
+                let smallest = idx;
+                if (left < items.length && this.compare(items[left], items[smallest]) < 0) {
+                    smallest = left;
+                }
+                if (right < items.length && this.compare(items[right], items[smallest]) < 0) {
+                    smallest = right;
+                }
+                if (smallest === idx) {
+                    break;
+                }
+                [items[idx], items[smallest]] = [items[smallest], items[idx]];
+                idx = smallest;
+            }
+        }
+        return top;
+    }
+}
+
+/**
+ * A sort engine implemented in pure Node, that doesn't require the sqlite3 command.
+ * The rows are sorted in memory by chunks, which are flushed to temporary run files when the memory budget is exceeded.
+ * The run files are then merged with a k-way merge.
+ * It produces the same output as the SQLite engine, but only supports the schema, select, orderBy, offset and limit options, without computed columns.
+ */
+export class MergeSortEngine implements SortEngine {
+    private runCount = 0;
+    private bytesRead = 0;
+
+    async execute(options: SorterOptions): Promise<SortResult> {
+        this.validate(options);
+        const tempDir = fs.mkdtempSync(path.join(options.merge?.tempDir ?? os.tmpdir(), 'huge-csv-sorter-'));
+        options.logger(`Create temp folder ${tempDir}`);
+        try {
+            const table = await this.importSources(options, tempDir);
+            await this.exportRows(options, table);
+            return {};
+        } finally {
+            this.cleanup(options, tempDir);
+        }
+    }
+
+    validate(options: SorterOptions) {
+        if (options.where) {
+            throw new ValidationError('The where option is not supported by the merge engine!');
+        }
+        if (options.distinct) {
+            throw new ValidationError('The distinct option is not supported by the merge engine!');
+        }
+        if (options.join) {
+            throw new ValidationError('The join option is not supported by the merge engine!');
+        }
+        if (options.groupBy || options.aggregates) {
+            throw new ValidationError('The groupBy and aggregates options are not supported by the merge engine!');
+        }
+        if (options.select.some(col => col.expression !== undefined)) {
+            throw new ValidationError('The computed columns are not supported by the merge engine!');
+        }
+        if (options.merge?.tempDir) {
+            validateFolderExists(options.merge.tempDir);
+        }
+    }
+
+    async importSources(options: SorterOptions, tempDir: string): Promise<Table> {
+        const budget = options.merge?.memoryBudget ?? defaultMemoryBudget;
+        let columns: Column[] | undefined;
+        let orderKeys: OrderKey[] = [];
+        let seq = 0;
+        let chunk: Row[] = [];
+        let chunkSize = 0;
+        const runs: string[] = [];
+        const compare = this.createComparer(options);
+        let reportedBytes = 0;
+        options.logger('Import sources');
+        options.onProgress?.({ phase: 'import' });
+        for await (const { source, line, record } of this.readSources(options)) {
+            throwIfAborted(options.signal);
+            if (this.bytesRead !== reportedBytes) {
+                reportedBytes = this.bytesRead;
+                options.onProgress?.({ phase: 'import', bytes: reportedBytes, rows: seq });
+            }
+            // the header of each part is skipped, since the columns are defined by the schema or by the first part
+            if (line === 1) {
+                if (!columns) {
+                    columns = this.createColumns(options, record);
+                    orderKeys = createOrderKeys(options, columns);
+                }
+                continue;
+            }
+            if (record.length > columns!.length) {
+                const filename = options.input ? 'input' : options.sources[source].filename;
+                throw new Error(`${filename}:${line}: expected ${columns!.length} columns but found ${record.length}`);
+            }
+            const row = createRow(seq++, record, columns!, orderKeys);
+            chunk.push(row);
+            chunkSize += row.size;
+            if (chunkSize >= budget) {
+                runs.push(await this.writeRun(options, tempDir, sortRows(chunk, compare)));
+                chunk = [];
+                chunkSize = 0;
+            }
+        }
+        options.onProgress?.({ phase: 'import', bytes: this.bytesRead, rows: seq });
+        if (!columns) {
+            return { columns: [], rows: toAsyncIterable([]) };
+        }
+        if (runs.length === 0) {
+            return { columns, rows: sortRows(chunk, compare) };
+        }
+        if (chunk.length > 0) {
+            runs.push(await this.writeRun(options, tempDir, sortRows(chunk, compare)));
+        }
+        return { columns, rows: await this.mergeRuns(options, tempDir, runs, compare, columns, orderKeys) };
+    }
+
+    async *readSources(options: SorterOptions): AsyncGenerator<{ source: number, line: number, record: CsvRecord }> {
+        const columns = options.schema.length > 0 ? options.schema.map(col => col.name) : undefined;
+        for (let idx = 0; idx < options.sources.length; idx++) {
+            const source = options.sources[idx];
+            const input: Readable = options.input ?? createFileReadStream(source);
+            const parser = createRecordParser(source, columns);
+            const decoder = new SourceDecoder(source.encoding);
+            let line = 0;
+            for await (const data of input) {
+                this.bytesRead += Buffer.byteLength(data);
+                for (const record of parser.push(decoder.write(data))) {
+                    yield { source: idx, line: ++line, record };
+                }
+            }
+            for (const record of parser.push(decoder.end()).concat(parser.flush())) {
+                yield { source: idx, line: ++line, record };
+            }
+        }
+    }
+
+    createColumns(options: SorterOptions, header: CsvRecord): Column[] {
+        if (options.schema.length > 0) {
+            const columns: Column[] = options.schema.map(col => ({
+                name: col.name,
+                numeric: isNumericType(col.type),
+                real: col.type === 'real',
+                formatter: createFormatter(col),
+            }));
+            const sortKeys: Column[] = (options.sortKeys ?? []).map(key => ({ name: key.name, numeric: false, real: false, hidden: true }));
+            return columns.concat(sortKeys);
+        }
+        return header.map(name => ({ name, numeric: false, real: false }));
+    }
+
+    createComparer(options: SorterOptions): (a: Row, b: Row) => number {
+        const compareRowKeys = createKeyComparer(options);
+        // like SQLite scanning its index backwards, the rows with the same keys are reversed when the first column is descending.
+        const seqDirection = options.orderBy[0].sortDirection === 'DESC' ? -1 : 1;
+        return (a, b) => compareRowKeys(a, b) || (a.seq - b.seq) * seqDirection;
+    }
+
+    async writeRun(options: SorterOptions, tempDir: string, rows: AsyncIterable<Row>): Promise<string> {
+        const filename = path.join(tempDir, `run-${++this.runCount}.jsonl`);
+        options.logger(`Write run file ${filename}`);
+        const output = fs.createWriteStream(filename);
+        const writer = new TextWriter(output);
+        for await (const row of rows) {
+            throwIfAborted(options.signal);
+            await writer.write(JSON.stringify([row.seq, ...row.raw]) + '\n');
+        }
+        await writer.end();
+        return filename;
+    }
+
+    async *readRun(filename: string, columns: Column[], orderKeys: OrderKey[]): AsyncGenerator<Row> {
+        const input = fs.createReadStream(filename);
+        try {
+            for await (const line of readline.createInterface({ input, crlfDelay: Infinity })) {
+                const [seq, ...raw] = JSON.parse(line);
+                yield createRow(seq, raw, columns, orderKeys);
+            }
+        } finally {
+            input.destroy();
+        }
+    }
+
+    async mergeRuns(options: SorterOptions, tempDir: string, runs: string[], compare: (a: Row, b: Row) => number, columns: Column[], orderKeys: OrderKey[]): Promise<AsyncIterable<Row>> {
+        while (runs.length > mergeFanIn) {
+            const merged: string[] = [];
+            for (let i = 0; i < runs.length; i += mergeFanIn) {
+                const group = runs.slice(i, i + mergeFanIn).map(run => this.readRun(run, columns, orderKeys));
+                merged.push(await this.writeRun(options, tempDir, mergeRows(group, compare)));
+            }
+            runs = merged;
+        }
+        options.logger(`Merge ${runs.length} run files`);
+        return mergeRows(runs.map(run => this.readRun(run, columns, orderKeys)), compare);
+    }
+
+    async exportRows(options: SorterOptions, table: Table) {
+        const delimiter = options.destination.delimiter ?? ',';
+        const selected = options.select.length > 0 ? options.select.map(col => findColumn(table.columns, col.name!)) : table.columns.flatMap((col, idx) => col.hidden ? [] : [idx]);
+        const header = selected.map((idx, pos) => options.select[pos]?.as ?? table.columns[idx].name);
+        const output: Writable = options.output ?? fs.createWriteStream(options.destination.filename);
+        let count = 0;
+        const writer = new TextWriter(output, bytes => options.onProgress?.({ phase: 'export', bytes, rows: count }));
+        options.logger('Export rows');
+        options.onProgress?.({ phase: 'export' });
+        if (table.columns.length > 0 && options.destination.writeHeader !== false) {
+            await writer.write(formatCsvRecord(header, delimiter));
+        }
+        let skipped = 0;
+        for await (const row of table.rows) {
+            throwIfAborted(options.signal);
+            if (options.offset && skipped < options.offset) {
+                skipped++;
+                continue;
+            }
+            if (options.limit && count >= options.limit) {
+                break;
+            }
+            count++;
+            await writer.write(formatCsvRecord(selected.map(idx => table.columns[idx].formatter?.(row.values[idx]) ?? row.values[idx]), delimiter));
+        }
+        await writer.end();
+    }
+
+    cleanup(options: SorterOptions, tempDir: string) {
+        options.logger('Cleanup');
+        options.logger(`Delete temp folder ${tempDir}`);
+        fs.rmSync(tempDir, { recursive: true, force: true });
+        if (options.signal?.aborted) {
+            removePartialOutputs(options);
+        }
+    }
+}
+
+/**
+ * Buffers the text written to a stream and waits for the stream to drain when it is full.
+ */
+class TextWriter {
+    private buffer = '';
+    private error: Error | undefined;
+    private bytesWritten = 0;
+
+    constructor(private output: Writable, private onFlush?: (bytesWritten: number) => void) {
+        output.on('error', err => this.error = err);
+    }
+
+    async write(text: string) {
+        this.buffer += text;
+        if (this.buffer.length >= 64 * 1024) {
+            await this.flush();
+        }
+    }
+
+    async end() {
+        await this.flush();
+        if (!isStandardOutput(this.output)) {
+            this.output.end();
+        }
+        await waitForOutput(this.output);
+    }
+
+    private async flush() {
+        if (this.error) {
+            throw this.error;
+        }
+        const text = this.buffer;
+        this.buffer = '';
+        this.bytesWritten += Buffer.byteLength(text);
+        this.onFlush?.(this.bytesWritten);
+        if (!this.output.write(text)) {
+            await once(this.output, 'drain');
+        }
+    }
+}
+
+function findColumn(columns: Column[], name: string): number {
+    const idx = columns.findIndex(col => sameColumnName(col.name, name));
+    if (idx < 0) {
+        throw new ValidationError(`no such column: ${name}`);
+    }
+    return idx;
+}
+
+function createKeyComparer(options: SorterOptions): (a: Row, b: Row) => number {
+    // the empty flag of a column is sorted in the same direction as its values
+    const directions = options.orderBy.flatMap(col => {
+        const direction = col.sortDirection === 'DESC' ? -1 : 1;
+        return col.nulls ? [direction, direction] : [direction];
+    });
+    return (a, b) => {
+        for (let i = 0; i < directions.length; i++) {
+            const res = compareKeys(a.keys[i], b.keys[i]);
+            if (res !== 0) {
+                return res * directions[i];
+            }
+        }
+        return 0;
+    };
+}
+
+/**
+ * Reads the sources and finds the first row that is not in the order of the orderBy option,
+ * the values being compared the same way as when they are sorted.
+ * The rows with the same keys are in order, whatever their position.
+ * @param options the options of the sort, with the hidden columns holding the sort keys
+ * @param normalize the function converting the values of a record to their sortable storage
+ * @returns the position of the row in the sources, or undefined when all the rows are in order
+ */
+export async function findUnsortedRow(options: SorterOptions, normalize: (record: CsvRecord) => CsvRecord): Promise<{ source: number, line: number } | undefined> {
+    const engine = new MergeSortEngine();
+    const compare = createKeyComparer(options);
+    let columns: Column[] = [];
+    let orderKeys: OrderKey[] = [];
+    let previous: Row | undefined;
+    let seq = 0;
+    for await (const { source, line, record } of engine.readSources(options)) {
+        throwIfAborted(options.signal);
+        if (line === 1) {
+            if (source === 0) {
+                columns = engine.createColumns(options, record);
+                orderKeys = createOrderKeys(options, columns);
+            }
+            continue;
+        }
+        const row = createRow(seq++, normalize(record), columns, orderKeys);
+        if (previous && compare(previous, row) > 0) {
+            // the header of a file without header is generated by the parser
+            return { source, line: options.sources[source].hasHeader === false ? line - 1 : line };
+        }
+        previous = row;
+    }
+    return undefined;
+}
+
+function createOrderKeys(options: SorterOptions, columns: Column[]): OrderKey[] {
+    return options.orderBy.map((col, idx) => {
+        const sortKey = options.sortKeys?.find(key => key.orderIndex === idx);
+        const orderKey: OrderKey = {
+            index: findColumn(columns, sortKey?.name ?? col.name),
+            nocase: col.collation === 'nocase',
+        };
+        if (col.nulls) {
+            // like the flag computed by the SQLite engine, 1 sorts the empty values last in ascending order
+            orderKey.emptyFlag = (col.nulls === 'last') === (col.sortDirection !== 'DESC') ? 1 : 0;
+        }
+        return orderKey;
+    });
+}
+
+function createRow(seq: number, raw: Value[], columns: Column[], orderKeys: OrderKey[]): Row {
+    let size = 64;
+    const values: Value[] = columns.map((col, idx) => {
+        const value = idx < raw.length ? raw[idx] : null;
+        if (value === null) {
+            return null;
+        }
+        size += value.length * 2 + 16;
+        if (!col.numeric) {
+            return value;
+        }
+        const numeric = toNumeric(value);
+        if (!numeric) {
+            return value;
+        }
+        // like the REAL affinity of SQLite, the integers are converted to reals
+        return col.real ? formatReal(numeric.value) : numeric.text;
+    });
+    const keys: Key[] = orderKeys.flatMap(orderKey => {
+        const value = values[orderKey.index];
+        let key: Key = value;
+        if (value !== null && columns[orderKey.index].numeric) {
+            key = toNumeric(value)?.value ?? value;
+        }
+        if (orderKey.nocase && typeof key === 'string') {
+            // like the NOCASE collation of SQLite, only the ASCII letters are folded
+            key = key.replace(/[A-Z]+/g, letters => letters.toLowerCase());
+        }
+        if (orderKey.emptyFlag === undefined) {
+            return [key];
+        }
+        const isEmpty = value === null || value === '';
+        return [isEmpty ? orderKey.emptyFlag : 1 - orderKey.emptyFlag, key];
+    });
+    return { seq, raw, values, keys, size };
+}
+
+async function* toAsyncIterable(rows: Row[]): AsyncGenerator<Row> {
+    yield* rows;
+}
+
+function sortRows(rows: Row[], compare: (a: Row, b: Row) => number): AsyncIterable<Row> {
+    return toAsyncIterable(rows.sort(compare));
+}
+
+async function* mergeRows(sources: AsyncIterator<Row>[], compare: (a: Row, b: Row) => number): AsyncGenerator<Row> {
+    const heap = new RowHeap<{ row: Row, source: AsyncIterator<Row> }>((a, b) => compare(a.row, b.row));
+    for (const source of sources) {
+        const next = await source.next();
+        if (!next.done) {
+            heap.push({ row: next.value, source });
+        }
+    }
+    try {
+        while (heap.size > 0) {
+            const item = heap.pop();
+            yield item.row;
+            const next = await item.source.next();
+            if (!next.done) {
+                heap.push({ row: next.value, source: item.source });
+            }
+        }
+    } finally {
+        // releases the run files that were not fully read, when the consumer stops early
+        await Promise.all(sources.map(source => source.return?.()));
+    }
+}
+
+function validateFolderExists(folder: string): void {
+    if (!fs.existsSync(folder)) {
+        throw new ValidationError(`Folder '${folder}' does not exist!`);
+    }
+}
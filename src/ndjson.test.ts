@@ -0,0 +1,67 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import { NdjsonParser, parseNdjsonLine, readNdjsonColumns } from './ndjson';
+
+describe('ndjson', () => {
+    beforeAll(() => {
+        fs.mkdirSync('./output/files', { recursive: true });
+    });
+    describe('parseNdjsonLine', () => {
+        test('should flatten the nested fields', () => {
+            const values = parseNdjsonLine('{"id":1,"user":{"name":"Bob","address":{"city":null}},"tags":["a",{"b":2}],"paid":false,"empty":{}}', 1, 'events.ndjson');
+            expect([...values]).toEqual([
+                ['id', '1'],
+                ['user.name', 'Bob'],
+                ['user.address.city', ''],
+                ['tags', '["a",{"b":2}]'],
+                ['paid', 'false'],
+            ]);
+        });
+        test('should reject the lines that are not JSON objects', () => {
+            expect(() => parseNdjsonLine('{"id":1', 3, 'events.ndjson')).toThrow(`Line 3 of 'events.ndjson' is not a JSON object!`);
+            expect(() => parseNdjsonLine('[1,2]', 4, 'events.ndjson')).toThrow(`Line 4 of 'events.ndjson' is not a JSON object!`);
+            expect(() => parseNdjsonLine('null', 5, 'events.ndjson')).toThrow(`Line 5 of 'events.ndjson' is not a JSON object!`);
+        });
+    });
+    describe('readNdjsonColumns', () => {
+        test('should read the fields of the first objects', () => {
+            expect(readNdjsonColumns({ filename: './tests/unordered-events.ndjson' })).toEqual(['id', 'type', 'user.id', 'user.name', 'tags', 'amount', 'user.address.city', 'paid']);
+        });
+        test('should only read a sample of the objects', () => {
+            const lines = Array.from({ length: 1000 }, (_value, i) => `{"id":${i}}`);
+            fs.writeFileSync('./output/files/sample.ndjson.gz', zlib.gzipSync([...lines, '{"id":1000,"late":true}'].join('\n')));
+            expect(readNdjsonColumns({ filename: './output/files/sample.ndjson.gz' })).toEqual(['id']);
+        });
+        test('should return no column for an empty file', () => {
+            fs.writeFileSync('./output/files/empty.ndjson', '\n');
+            expect(readNdjsonColumns({ filename: './output/files/empty.ndjson' })).toEqual([]);
+        });
+    });
+    describe('NdjsonParser', () => {
+        test('should return the values in the order of the columns', () => {
+            const parser = new NdjsonParser(['id', 'user.name', 'missing'], 'events.ndjson');
+            expect(parser.push('{"user":{"name":"Bob"},"id":1}\r\n\n{"id"')).toEqual([
+                ['id', 'user.name', 'missing'],
+                ['1', 'Bob', ''],
+            ]);
+            expect(parser.push(':2}\n')).toEqual([['2', '', '']]);
+            expect(parser.push('{"id":3}')).toEqual([]);
+            expect(parser.flush()).toEqual([['3', '', '']]);
+        });
+        test('should return no record without objects', () => {
+            const parser = new NdjsonParser(['id'], 'events.ndjson');
+            expect(parser.push('\n  \n')).toEqual([]);
+            expect(parser.flush()).toEqual([]);
+        });
+        test('should pass the invalid lines to the callback', () => {
+            const malformed: [number, string, string][] = [];
+            const parser = new NdjsonParser(['id'], 'events.ndjson', (lineNumber, line, reason) => malformed.push([lineNumber, line, reason]));
+            expect(parser.push('{"id":1}\r\n"id"\r\n{"id":2}\n')).toEqual([['id'], ['1'], ['2']]);
+            expect(malformed).toEqual([[2, '"id"', 'not a JSON object']]);
+        });
+        test('should report the line of an invalid object', () => {
+            const parser = new NdjsonParser(['id'], 'events.ndjson');
+            expect(() => parser.push('{"id":1}\n\n{"id":}\n')).toThrow(`Line 3 of 'events.ndjson' is not a JSON object!`);
+        });
+    });
+});
@@ -0,0 +1,142 @@
+import { readFileChunksSync } from './compression';
+import { SourceDecoder } from './encoding';
+import type { CsvRecord } from './csv';
+import type { FileOptions } from './sorter';
+
+/**
+ * The number of objects read for finding the columns of a file, when there is no schema.
+ */
+const columnSampleSize = 1000;
+
+function flatten(value: unknown, name: string, values: Map<string, string>) {
+    if (value === null || value === undefined) {
+        values.set(name, '');
+    } else if (typeof value === 'object' && !Array.isArray(value)) {
+        for (const [key, child] of Object.entries(value)) {
+            flatten(child, name ? `${name}.${key}` : key, values);
+        }
+    } else if (typeof value === 'object') {
+        // the arrays are kept as JSON text
+        values.set(name, JSON.stringify(value));
+    } else {
+        values.set(name, String(value));
+    }
+}
+
+function parseObject(line: string): Map<string, string> | undefined {
+    let value: unknown;
+    try {
+        value = JSON.parse(line);
+    } catch {
+        return undefined;
+    }
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return undefined;
+    }
+    const values = new Map<string, string>();
+    flatten(value, '', values);
+    return values;
+}
+
+/**
+ * Parses a line of an ndjson file and flattens its object, the nested fields being named by their dotted path, such as user.id.
+ * @param line the text of the line
+ * @param lineNumber the number of the line, used in the error message
+ * @param filename the name of the file, used in the error message
+ */
+export function parseNdjsonLine(line: string, lineNumber: number, filename: string): Map<string, string> {
+    const values = parseObject(line);
+    if (!values) {
+        throw new Error(`Line ${lineNumber} of '${filename}' is not a JSON object!`);
+    }
+    return values;
+}
+
+function* readFirstLines(file: FileOptions): Generator<string> {
+    const decoder = new SourceDecoder(file.encoding);
+    let text = '';
+    for (const chunk of readFileChunksSync(file)) {
+        const lines = (text + decoder.write(chunk)).split('\n');
+        text = lines.pop()!;
+        yield* lines;
+    }
+    yield text + decoder.end();
+}
+
+/**
+ * Reads the columns of an ndjson file from its first objects, in the order of their first appearance.
+ * The invalid lines are skipped, since they are reported by the parser.
+ * @param file the options of the file to read
+ */
+export function readNdjsonColumns(file: FileOptions): string[] {
+    const columns = new Set<string>();
+    let count = 0;
+    for (const line of readFirstLines(file)) {
+        const values = line.trim() !== '' ? parseObject(line) : undefined;
+        if (!values) {
+            continue;
+        }
+        values.forEach((_value, name) => columns.add(name));
+        if (++count >= columnSampleSize) {
+            break;
+        }
+    }
+    return [...columns];
+}
+
+/**
+ * A callback receiving the lines of a source that are dropped because they are malformed
+ */
+export type MalformedLineHandler = (lineNumber: number, line: string, reason: string) => void;
+
+/**
+ * An incremental ndjson parser that accepts chunks of text and returns the completed records, like the CSV parser.
+ * The first record is the header made of the columns, and the values of the objects are returned in the order of the columns,
+ * the missing fields being empty. The blank lines are skipped.
+ */
+export class NdjsonParser {
+    private text = '';
+    private lineNumber = 0;
+    private headerParsed = false;
+
+    /**
+     * @param columns the flattened names of the columns
+     * @param filename the name of the file, used in the error messages
+     * @param onMalformedLine the callback receiving the invalid lines, which are reported as errors otherwise
+     */
+    constructor(readonly columns: string[], readonly filename: string, private onMalformedLine?: MalformedLineHandler) {
+    }
+
+    push(chunk: string): CsvRecord[] {
+        const lines = (this.text + chunk).split('\n');
+        this.text = lines.pop()!;
+        return this.parseLines(lines);
+    }
+
+    flush(): CsvRecord[] {
+        const lines = [this.text];
+        this.text = '';
+        return this.parseLines(lines);
+    }
+
+    private parseLines(lines: string[]): CsvRecord[] {
+        const records: CsvRecord[] = [];
+        for (const line of lines) {
+            this.lineNumber++;
+            if (line.trim() === '') {
+                continue;
+            }
+            const values = this.onMalformedLine ? parseObject(line) : parseNdjsonLine(line, this.lineNumber, this.filename);
+            if (!values) {
+                this.onMalformedLine!(this.lineNumber, line.replace(/\r$/, ''), 'not a JSON object');
+                continue;
+            }
+            if (!this.headerParsed) {
+                this.headerParsed = true;
+                records.push(this.columns);
+            }
+            records.push(this.columns.map(name => values.get(name) ?? ''));
+        }
+        return records;
+    }
+}
@@ -0,0 +1,54 @@
+const numericLiteral = /^\s*[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?\s*$/;
+const integerLiteral = /^\s*[+-]?\d+\s*$/;
+const maxInt64 = 2n ** 63n;
+
+function stripTrailingZeros(text: string): string {
+    if (!text.includes('.')) {
+        return text;
+    }
+    return text.replace(/0+$/, '').replace(/\.$/, '');
+}
+
+function withDecimal(text: string): string {
+    return text.includes('.') ? text : text + '.0';
+}
+
+/**
+ * Formats a real number the same way as SQLite, which uses the "%!.15g" format.
+ * @param value the number to format
+ */
+export function formatReal(value: number): string {
+    if (!isFinite(value)) {
+        return value > 0 ? 'Inf' : '-Inf';
+    }
+    const [mantissa, exponent] = value.toExponential(14).split('e');
+    const exp = parseInt(exponent);
+    if (exp < -4 || exp >= 15) {
+        const digits = String(Math.abs(exp)).padStart(2, '0');
+        return `${withDecimal(stripTrailingZeros(mantissa))}e${exp < 0 ? '-' : '+'}${digits}`;
+    }
+    return withDecimal(stripTrailingZeros(value.toFixed(14 - exp)));
+}
+
+/**
+ * Converts a text to a number, following the rules of the NUMERIC affinity of SQLite:
+ * a well-formed number literal is stored as an integer when it can be converted losslessly, otherwise as a real.
+ * @param text the text to convert
+ * @returns the number and its text representation, or undefined if the text is not a number
+ */
+export function toNumeric(text: string): { value: number, text: string } | undefined {
+    if (!numericLiteral.test(text)) {
+        return undefined;
+    }
+    if (integerLiteral.test(text)) {
+        const integer = BigInt(text.trim());
+        if (integer >= -maxInt64 && integer < maxInt64) {
+            return { value: Number(integer), text: integer.toString() };
+        }
+    }
+    const value = Number(text.trim());
+    if (Number.isInteger(value) && Math.abs(value) < 2 ** 63) {
+        return { value, text: BigInt(value).toString() };
+    }
+    return { value, text: formatReal(value) };
+}
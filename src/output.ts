@@ -0,0 +1,24 @@
+import { finished, Writable } from 'stream';
+
+/**
+ * Returns true if the output is the standard output or error, which must never be ended.
+ * @param output the output stream
+ */
+export function isStandardOutput(output: Writable): boolean {
+    return output === process.stdout || output === process.stderr;
+}
+
+/**
+ * Waits for the rows written to the output to be written.
+ * Since the standard output and error are never ended, their pending writes are flushed instead of waiting for them to finish.
+ * @param output the output stream
+ */
+export function waitForOutput(output: Writable): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (isStandardOutput(output)) {
+            output.write('', err => err ? reject(err) : resolve());
+        } else {
+            finished(output, err => err ? reject(err) : resolve());
+        }
+    });
+}
@@ -0,0 +1,69 @@
+import fs from 'fs';
+import { PartitionWriter, toFilenamePart } from './partition';
+
+describe('partition', () => {
+    beforeAll(() => {
+        fs.rmSync('./output/partition', { recursive: true, force: true });
+        fs.mkdirSync('./output/partition', { recursive: true });
+    });
+    describe('toFilenamePart', () => {
+        test('should replace the characters that are not allowed in a filename', () => {
+            expect(toFilenamePart('fr')).toBe('fr');
+            expect(toFilenamePart('a/b\\c:d*e?f"g<h>i|j\tk')).toBe('a_b_c_d_e_f_g_h_i_j_k');
+            expect(toFilenamePart('..')).toBe('__');
+            expect(toFilenamePart('')).toBe('');
+            expect(toFilenamePart('v1.0')).toBe('v1.0');
+        });
+    });
+    describe('PartitionWriter', () => {
+        const write = async (writer: PartitionWriter, chunks: string[]) => {
+            for (const chunk of chunks) {
+                writer.write(chunk);
+            }
+            writer.end();
+            await new Promise((resolve, reject) => writer.on('finish', resolve).on('error', reject));
+        };
+        test('should keep the quoted line breaks and the raw fields', async () => {
+            const writer = new PartitionWriter({ filename: './output/partition/quoted-{The Key}-{index}.csv' }, 'The Key', 2, () => {});
+            await write(writer, ['"The Key",value\na,"x\n', 'y"\na,\nb,""\na,"""q"""\na,z']);
+            expect(writer.files).toEqual([
+                './output/partition/quoted-a-1.csv',
+                './output/partition/quoted-b-1.csv',
+                './output/partition/quoted-a-2.csv',
+            ]);
+            expect(fs.readFileSync('./output/partition/quoted-a-1.csv', 'utf8')).toBe('"The Key",value\na,"x\ny"\na,\n');
+            expect(fs.readFileSync('./output/partition/quoted-b-1.csv', 'utf8')).toBe('"The Key",value\nb,""\n');
+            expect(fs.readFileSync('./output/partition/quoted-a-2.csv', 'utf8')).toBe('"The Key",value\na,"""q"""\na,z\n');
+        });
+        test('should append the rows of a partition split by other rows', async () => {
+            const writer = new PartitionWriter({ filename: './output/partition/split-{key}.csv', delimiter: ';' }, 'key', undefined, () => {});
+            await write(writer, ['value;key\n', '1;Y\n2;N\n', '3;Y\n4\n']);
+            expect(writer.files).toEqual(['./output/partition/split-Y.csv', './output/partition/split-N.csv', './output/partition/split-.csv']);
+            expect(fs.readFileSync('./output/partition/split-Y.csv', 'utf8')).toBe('value;key\n1;Y\n3;Y\n');
+        });
+        test('should not write the header when the template disables it', async () => {
+            const writer = new PartitionWriter({ filename: './output/partition/no-header-{key}.csv', writeHeader: false }, 'key', undefined, () => {});
+            await write(writer, ['key,value\nY,1\nN,2\nY,3\n']);
+            expect(fs.readFileSync('./output/partition/no-header-Y.csv', 'utf8')).toBe('Y,1\nY,3\n');
+            expect(fs.readFileSync('./output/partition/no-header-N.csv', 'utf8')).toBe('N,2\n');
+        });
+        test('should not create any file without rows', async () => {
+            const writer = new PartitionWriter({ filename: './output/partition/empty-{index}.csv' }, undefined, 10, () => {});
+            await write(writer, ['id,name\n']);
+            expect(writer.files).toEqual([]);
+        });
+        test('should delete the created files', async () => {
+            const logs: string[] = [];
+            const writer = new PartitionWriter({ filename: './output/partition/removed-{index}.csv' }, undefined, 1, msg => logs.push(msg));
+            await write(writer, ['id\n1\n2\n']);
+            writer.removeFiles();
+            expect(logs).toEqual([
+                'Create file ./output/partition/removed-1.csv',
+                'Create file ./output/partition/removed-2.csv',
+                'Delete partial output ./output/partition/removed-1.csv',
+                'Delete partial output ./output/partition/removed-2.csv',
+            ]);
+            expect(fs.readdirSync('./output/partition').filter(name => name.startsWith('removed-'))).toEqual([]);
+        });
+    });
+});
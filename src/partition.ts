@@ -0,0 +1,177 @@
+import fs from 'fs';
+import { once } from 'events';
+import { StringDecoder } from 'string_decoder';
+import { Writable } from 'stream';
+import { finished } from 'stream/promises';
+import { createFileWriteStream, getCompression } from './compression';
+import { CsvParser } from './csv';
+import { sameColumnName } from './sql';
+import type { ColumnName, FileOptions, Filename, Logger } from './sorter';
+
+/**
+ * The placeholder of the index of a file in the filename template.
+ */
+export const indexPlaceholder = '{index}';
+
+interface Part {
+    index: number;
+    rows: number;
+}
+
+/**
+ * Replaces the characters that are not allowed in a filename, so that a value can't change the folder of a file.
+ * @param value the value of the partition column
+ */
+export function toFilenamePart(value: string): string {
+    const part = value.replace(/[/\\:*?"<>|\x00-\x1f]/g, '_');
+    return /^\.*$/.test(part) ? part.replace(/\./g, '_') : part;
+}
+
+/**
+ * A writable stream receiving the sorted CSV rows and splitting them into several files,
+ * by the value of a partition column and by a maximum number of rows per file.
+ * The header is repeated in every file, unless the template disables it, and the rows are written as they are received.
+ */
+export class PartitionWriter extends Writable {
+    /**
+     * The created files, in creation order
+     */
+    readonly files: Filename[] = [];
+    private decoder = new StringDecoder('utf8');
+    private pending = '';
+    private inQuotes = false;
+    private header: string | undefined;
+    private partitionIndex = -1;
+    private parts = new Map<string, Part>();
+    private filename: Filename | undefined;
+    private output: Writable | undefined;
+    private buffer = '';
+
+    constructor(private template: FileOptions, private partitionBy: ColumnName | undefined,
+        private maxRowsPerFile: number | undefined, private logger: Logger) {
+        super();
+    }
+
+    override _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+        this.writeText(this.decoder.write(chunk)).then(() => callback(), callback);
+    }
+
+    override _final(callback: (error?: Error | null) => void): void {
+        this.writeText(this.decoder.end() + (this.pending ? '\n' : ''))
+            .then(() => this.close())
+            .then(() => callback(), callback);
+    }
+
+    override _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+        this.output?.destroy();
+        callback(error);
+    }
+
+    /**
+     * Deletes the created files, after an aborted sort.
+     */
+    removeFiles() {
+        for (const filename of this.files) {
+            this.logger(`Delete partial output ${filename}`);
+            fs.rmSync(filename, { force: true });
+        }
+    }
+
+    private async writeText(text: string) {
+        let start = 0;
+        for (let i = 0; i < text.length; i++) {
+            const c = text.charAt(i);
+            if (c === '"') {
+                // the escaped quotes toggle the state twice
+                this.inQuotes = !this.inQuotes;
+            } else if (c === '\n' && !this.inQuotes) {
+                const record = this.pending + text.substring(start, i + 1);
+                this.pending = '';
+                start = i + 1;
+                await this.writeRecord(record);
+            }
+        }
+        this.pending += text.substring(start);
+        await this.flush();
+    }
+
+    private async writeRecord(record: string) {
+        if (this.header === undefined) {
+            this.header = record;
+            if (this.partitionBy) {
+                const names = this.parse(record);
+                this.partitionIndex = names.findIndex(name => sameColumnName(name, this.partitionBy));
+                if (this.partitionIndex < 0) {
+                    throw new Error(`The partition column '${this.partitionBy}' is not in the destination columns: (${names.join(', ')})!`);
+                }
+            }
+            return;
+        }
+        const key = this.partitionIndex >= 0 ? this.parse(record)[this.partitionIndex] ?? '' : '';
+        let part = this.parts.get(key);
+        if (!part) {
+            part = { index: 1, rows: 0 };
+            this.parts.set(key, part);
+        }
+        if (this.maxRowsPerFile && part.rows >= this.maxRowsPerFile) {
+            part.index++;
+            part.rows = 0;
+        }
+        part.rows++;
+        const filename = this.getFilename(key, part.index);
+        if (filename !== this.filename) {
+            await this.open(filename);
+        }
+        this.buffer += record;
+    }
+
+    private parse(record: string): string[] {
+        const parser = new CsvParser(this.template.delimiter ?? ',');
+        return parser.push(record)[0];
+    }
+
+    private getFilename(key: string, index: number): Filename {
+        let filename = this.template.filename.replaceAll(indexPlaceholder, String(index));
+        if (this.partitionBy) {
+            filename = filename.replaceAll(`{${this.partitionBy}}`, toFilenamePart(key));
+        }
+        return filename;
+    }
+
+    private async open(filename: Filename) {
+        await this.close();
+        // the rows of a partition can be split by rows whose values are formatted the same way
+        const created = this.files.includes(filename);
+        if (!created) {
+            this.logger(`Create file ${filename}`);
+            this.files.push(filename);
+        }
+        this.filename = filename;
+        // the compression is given by the template, so that it doesn't depend on the values of the partition column
+        this.output = createFileWriteStream({ ...this.template, filename, compression: getCompression(this.template) }, created ? 'a' : 'w');
+        if (!created && this.template.writeHeader !== false) {
+            this.buffer += this.header;
+        }
+    }
+
+    private async flush() {
+        if (this.output && this.buffer) {
+            const text = this.buffer;
+            this.buffer = '';
+            if (!this.output.write(text)) {
+                await once(this.output, 'drain');
+            }
+        }
+    }
+
+    private async close() {
+        await this.flush();
+        if (this.output) {
+            const output = this.output;
+            this.output = undefined;
+            this.filename = undefined;
+            output.end();
+            await finished(output);
+        }
+    }
+}
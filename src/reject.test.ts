@@ -0,0 +1,52 @@
+import fs from 'fs';
+import { RowRejecter } from './reject';
+
+describe('reject', () => {
+    beforeAll(() => {
+        fs.mkdirSync('./output/files', { recursive: true });
+    });
+    describe('RowRejecter', () => {
+        test('should count the skipped rows without writing them', async () => {
+            const logs: string[] = [];
+            const rejecter = new RowRejecter('skip', undefined, undefined, msg => logs.push(msg));
+            rejecter.reject('data.csv', 2, '1,a,b', 'expected 2 columns but found 3');
+            await rejecter.close();
+            expect(rejecter.count).toBe(1);
+            expect(logs).toEqual([]);
+        });
+        test('should log the rejected rows without reject file', async () => {
+            const logs: string[] = [];
+            const rejecter = new RowRejecter('reject', undefined, 1, msg => logs.push(msg));
+            rejecter.reject('data.csv', 2, '1,a,b', 'expected 2 columns but found 3');
+            await rejecter.close();
+            expect(logs).toEqual(['Reject line 2 of data.csv: expected 2 columns but found 3']);
+            expect(() => rejecter.reject('data.csv', 3, '2,a,b', 'expected 2 columns but found 3'))
+                .toThrow(`More than 1 malformed rows, line 3 of 'data.csv': expected 2 columns but found 3!`);
+        });
+        test('should wait for the reject file to drain', async () => {
+            const rejecter = new RowRejecter('reject', { filename: './output/files/rejected.tsv', delimiter: '\t' }, undefined, () => {});
+            for (let line = 2; line < 2000; line++) {
+                rejecter.reject('data.csv', line, `${line},a,b`, 'expected 2 columns but found 3');
+            }
+            await rejecter.flush();
+            await rejecter.close();
+            await rejecter.close();
+            const lines = fs.readFileSync('./output/files/rejected.tsv', 'utf8').split('\n');
+            expect(lines).toHaveLength(2000);
+            expect(lines.slice(0, 2)).toEqual(['filename\tline\treason\trow', 'data.csv\t2\t"expected 2 columns but found 3"\t2,a,b']);
+        });
+        test('should create an empty reject file', async () => {
+            const rejecter = new RowRejecter('reject', { filename: './output/files/rejected-empty.csv' }, undefined, () => {});
+            await rejecter.close();
+            expect(fs.readFileSync('./output/files/rejected-empty.csv', 'utf8')).toBe('filename,line,reason,row\n');
+        });
+        test('should destroy the reject file', async () => {
+            const rejecter = new RowRejecter('reject', { filename: './output/files/rejected-destroyed.csv' }, undefined, () => {});
+            rejecter.destroy();
+            await rejecter.flush();
+            rejecter.destroy();
+            await new Promise(resolve => setImmediate(resolve));
+            expect(fs.existsSync('./output/files/rejected-destroyed.csv')).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,80 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import { finished } from 'stream/promises';
+import { createFileWriteStream } from './compression';
+import { formatCsvRecord } from './csv';
+import type { FileOptions, Logger, MalformedRowPolicy } from './sorter';
+
+/**
+ * Counts the malformed rows dropped from the sources and writes the rejected ones to the reject file.
+ * The reject file is a CSV file with the columns filename, line, reason and row.
+ */
+export class RowRejecter {
+    /**
+     * The number of dropped rows
+     */
+    count = 0;
+    private output: Writable | undefined;
+    private buffer = '';
+
+    constructor(private policy: MalformedRowPolicy, private rejectFile: FileOptions | undefined,
+        private maxRejects: number | undefined, private logger: Logger) {
+    }
+
+    /**
+     * Drops a malformed row, failing once there are more malformed rows than the maximum.
+     * The row is buffered until the next flush.
+     * @param filename the name of the source
+     * @param line the line of the row, the header being the line 1
+     * @param row the text of the row
+     * @param reason the reason why the row is malformed
+     */
+    reject(filename: string, line: number, row: string, reason: string) {
+        this.count++;
+        if (this.maxRejects !== undefined && this.count > this.maxRejects) {
+            throw new Error(`More than ${this.maxRejects} malformed rows, line ${line} of '${filename}': ${reason}!`);
+        }
+        if (this.policy === 'reject') {
+            this.logger(`Reject line ${line} of ${filename}: ${reason}`);
+            this.buffer += formatCsvRecord([filename, String(line), reason, row], this.rejectFile?.delimiter ?? ',');
+        }
+    }
+
+    /**
+     * Writes the buffered rows to the reject file, which is created with its header by the first call.
+     */
+    async flush() {
+        if (!this.rejectFile) {
+            this.buffer = '';
+            return;
+        }
+        if (!this.output) {
+            this.logger(`Create reject file ${this.rejectFile.filename}`);
+            this.output = createFileWriteStream(this.rejectFile);
+            this.buffer = formatCsvRecord(['filename', 'line', 'reason', 'row'], this.rejectFile.delimiter ?? ',') + this.buffer;
+        }
+        const text = this.buffer;
+        this.buffer = '';
+        if (text && !this.output.write(text)) {
+            await once(this.output, 'drain');
+        }
+    }
+
+    /**
+     * Writes the buffered rows and closes the reject file.
+     */
+    async close() {
+        await this.flush();
+        if (this.output && !this.output.writableEnded) {
+            this.output.end();
+            await finished(this.output);
+        }
+    }
+
+    /**
+     * Closes the reject file without waiting, after a failed sort.
+     */
+    destroy() {
+        this.output?.destroy();
+    }
+}
@@ -0,0 +1,70 @@
+import fs from 'fs';
+import { applyColumnTypes, inferFileSchema } from './schema';
+
+describe('schema', () => {
+    beforeAll(() => {
+        if(!fs.existsSync('./output')) {
+            fs.mkdirSync('./output');
+        }
+        if(!fs.existsSync('./output/files')) {
+            fs.mkdirSync('./output/files');
+        }
+    });
+    describe('inferFileSchema', () => {
+        test('should infer the number and string columns', () => {
+            fs.writeFileSync('./output/files/infer.csv', 'id,price,name,comment\n1,1.5,john,\n2,-12.25,mary,\n3, 7 ,12,\n');
+            expect(inferFileSchema({ filename: './output/files/infer.csv' }, 10)).toEqual([
+                { name: 'id', type: 'number' },
+                { name: 'price', type: 'number' },
+                { name: 'name', type: 'string' },
+                { name: 'comment', type: 'string' },
+            ]);
+        });
+        test('should infer the strings that the NUMERIC affinity would rewrite', () => {
+            fs.writeFileSync('./output/files/infer-rewritten.csv', 'zip,amount,count,ratio\n02134,1.50,1e3,0.5\n00501,2.00,2,.5\n');
+            expect(inferFileSchema({ filename: './output/files/infer-rewritten.csv' }, 10)).toEqual([
+                { name: 'zip', type: 'string' },
+                { name: 'amount', type: 'string' },
+                { name: 'count', type: 'string' },
+                { name: 'ratio', type: 'string' },
+            ]);
+        });
+        test('should ignore the empty values and the missing columns', () => {
+            fs.writeFileSync('./output/files/infer-missing.csv', 'id,price\n1,\n2\n3,4\n');
+            expect(inferFileSchema({ filename: './output/files/infer-missing.csv' }, 10)).toEqual([
+                { name: 'id', type: 'number' },
+                { name: 'price', type: 'number' },
+            ]);
+        });
+        test('should only read the sample', () => {
+            fs.writeFileSync('./output/files/infer-sample.psv', 'id|code\n1|1\n2|2\n3|A3\n');
+            expect(inferFileSchema({ filename: './output/files/infer-sample.psv', delimiter: '|' }, 2)).toEqual([
+                { name: 'id', type: 'number' },
+                { name: 'code', type: 'number' },
+            ]);
+            expect(inferFileSchema({ filename: './output/files/infer-sample.psv', delimiter: '|' }, 3)).toEqual([
+                { name: 'id', type: 'number' },
+                { name: 'code', type: 'string' },
+            ]);
+        });
+        test('should return an empty schema for an empty file', () => {
+            fs.writeFileSync('./output/files/infer-empty.csv', '');
+            expect(inferFileSchema({ filename: './output/files/infer-empty.csv' }, 10)).toEqual([]);
+        });
+    });
+    describe('applyColumnTypes', () => {
+        test('should override the type of the columns', () => {
+            expect(applyColumnTypes([{ name: 'id' }, { name: 'price', type: 'string' }, { name: 'qty', type: 'number' }], { price: 'number' }, 'the schema')).toEqual([
+                { name: 'id' },
+                { name: 'price', type: 'number' },
+                { name: 'qty', type: 'number' },
+            ]);
+        });
+        test('should match the column names case insensitively', () => {
+            expect(applyColumnTypes([{ name: 'id' }, { name: 'age' }], { Age: 'number' }, 'the schema')).toEqual([{ name: 'id' }, { name: 'age', type: 'number' }]);
+        });
+        test('should fail with an unknown column', () => {
+            expect(() => applyColumnTypes([{ name: 'id' }, { name: 'name' }], { price: 'number' }, 'the schema')).toThrow(`Column 'price' of columnTypes is not in the schema: (id, name)!`);
+        });
+    });
+});
@@ -0,0 +1,48 @@
+import { readFirstRecords } from './csv';
+import { toNumeric } from './numeric';
+import { sameColumnName } from './sql';
+import { ValidationError } from './validation';
+import type { ColumnName, ColumnType, FileOptions, SchemaColumn } from './sorter';
+
+/**
+ * The default number of rows read for inferring the schema of a file.
+ */
+export const defaultSampleSize = 1000;
+
+/**
+ * Infers the schema of a CSV file from its header and a sample of its rows.
+ * A column is a number when all its non empty values are numbers that the NUMERIC affinity of SQLite would store as they are,
+ * otherwise it is a string, so that values such as 02134, 1.50 or 1e3 are not rewritten.
+ * @param file the file to sample
+ * @param sampleSize the maximum number of rows to read after the header
+ */
+export function inferFileSchema(file: FileOptions, sampleSize: number): SchemaColumn[] {
+    const [header, ...rows] = readFirstRecords(file, sampleSize + 1);
+    if (!header) {
+        return [];
+    }
+    return header.map((name, idx) => {
+        const values = rows.map(row => row[idx] ?? '').filter(value => value !== '');
+        const isNumber = values.length > 0 && values.every(value => toNumeric(value)?.text === value.trim());
+        return { name, type: isNumber ? 'number' : 'string' };
+    });
+}
+
+/**
+ * Overrides the type of some columns of a schema, the other columns keeping their type.
+ * @param columns the columns of the schema, or of the header of the source file
+ * @param columnTypes the types of the overridden columns, indexed by column name
+ * @param origin a description of where the columns come from, used in the error message
+ */
+export function applyColumnTypes(columns: SchemaColumn[], columnTypes: Record<ColumnName, ColumnType>, origin: string): SchemaColumn[] {
+    const types = Object.entries(columnTypes);
+    for (const [name] of types) {
+        if (!columns.some(col => sameColumnName(col.name, name))) {
+            throw new ValidationError(`Column '${name}' of columnTypes is not in ${origin}: (${columns.map(col => col.name).join(', ')})!`);
+        }
+    }
+    return columns.map(col => {
+        const type = types.find(([name]) => sameColumnName(col.name, name));
+        return type ? { ...col, type: type[1] } : col;
+    });
+}
@@ -1,5 +1,9 @@
 import fs from 'fs';
-import { execSqlite, sort } from './sorter';
+import zlib from 'zlib';
+import { Readable, Writable } from 'stream';
+import { CsvParser } from './csv';
+import { AbortError, detectDialect, execSqlite, inferSchema, isSorted, JoinOptions, ProgressEvent, Row, SchemaColumn, sort, sortedRows, Sorter, SorterOptions, SortOptions, sortStream, ValidationError } from './sorter';
+import { captureStdout } from './testing';
 
 function readAllText(path: string): string {
     return fs.readFileSync(path).toString();
@@ -27,7 +31,7 @@ describe('Sorter', () => {
             const script = 'select 2+2;';
             const logs: string[] = [];
             const res = await execSqlite({
-                source: { filename: '' },
+                sources: [{ filename: '' }],
                 destination: { filename: '' },
                 sqlite: { filename: './output/files/test.sqlite' },
                 schema: [],
@@ -41,12 +45,28 @@ describe('Sorter', () => {
                 '[SQLite] '
             ]);
         });
+        test('should report the progress markers instead of logging them', async () => {
+            const script = `.print hello\n.print @@progress index\n.mode csv\nselect '@@progress import ' || 42;`;
+            const logs: string[] = [];
+            const events: ProgressEvent[] = [];
+            await execSqlite({
+                sources: [{ filename: '' }],
+                destination: { filename: '' },
+                sqlite: { filename: './output/files/test.sqlite' },
+                schema: [],
+                select: [],
+                orderBy: [{ name: 'id' }],
+                logger: (msg) => { logs.push(msg); },
+            }, script, { onProgress: event => events.push(event) });
+            expect(logs.filter(msg => msg !== '[SQLite] ')).toEqual(['[SQLite] hello']);
+            expect(events).toEqual([{ phase: 'index' }, { phase: 'import', rows: 42 }]);
+        });
         test('should fail with unknown function', async () => {
             const logs: string[] = [];
             await expect(async () => {
                 const script = 'select unknownfunc(1);';
                 const res = await execSqlite({
-                    source: { filename: '' },
+                    sources: [{ filename: '' }],
                     destination: { filename: '' },
                     sqlite: { filename: './output/files/test.sqlite' },
                     schema: [],
@@ -75,7 +95,7 @@ describe('Sorter', () => {
                 const script = 'select 2+2;';
                 const logs: string[] = [];
                 const res = await execSqlite({
-                    source: { filename: '' },
+                    sources: [{ filename: '' }],
                     destination: { filename: '' },
                     sqlite: { filename: './output/files/test.sqlite', cli: 'unknown-cli' },
                     schema: [],
@@ -85,6 +105,43 @@ describe('Sorter', () => {
                 }, script);
             }).rejects.toThrow(`spawn unknown-cli ENOENT`);            
         });
+        test('should ignore the input that is not consumed', async () => {
+            const input = new Readable({
+                read() {
+                    this.push('1,john\n'.repeat(1000));
+                },
+            });
+            const res = await execSqlite({
+                sources: [{ filename: '' }],
+                destination: { filename: '' },
+                sqlite: { filename: './output/files/test.sqlite', cli: 'true' },
+                schema: [],
+                select: [],
+                orderBy: [{ name: 'id' }],
+                logger: () => {},
+            }, '', { input });
+            expect(res).toBe(0);
+        });
+    });
+    describe('script', () => {
+        test('should generate, execute and clean up the SQLite script', async () => {
+            const options: SorterOptions = {
+                sources: [{ filename: './tests/unordered-id.csv' }],
+                destination: { filename: './output/files/unordered-id.sorted.csv' },
+                sqlite: { filename: './output/files/script.sqlite' },
+                schema: [],
+                select: [],
+                orderBy: [{ name: 'id' }],
+                logger: () => {},
+            };
+            const sorter = new Sorter();
+            const script = sorter.generateScript(options);
+            expect(script).toContain('select * from DATA order by id;');
+            await sorter.executeScript(options, script);
+            sorter.cleanup(options);
+            expect(readAllText('./output/files/unordered-id.sorted.csv')).toMatch(/^id,name,age\n1,john,12\n2,/);
+            expect(fs.existsSync('./output/files/script.sqlite')).toBe(false);
+        });
     });
     describe('validations', () => {
         test('source file should exist', async () => {
@@ -96,6 +153,14 @@ describe('Sorter', () => {
                 });    
             }).rejects.toThrow(`File './tests/file-should-not-exist.csv' does not exist!`);
         });
+        test('should reject the invalid options with a ValidationError', async () => {
+            await expect(sort({
+                source: './tests/unordered-id.csv',
+                destination: './output/files/unordered-id.sorted.csv',
+                orderBy: ['id'],
+                where: { column: 'unknown', op: '=', value: 1 },
+            })).rejects.toThrow(ValidationError);
+        });
         test('source destination folder should exist', async () => {
             await expect(async () => {
                 await sort({
@@ -114,6 +179,13 @@ describe('Sorter', () => {
                 });    
             }).rejects.toThrow(`You must provide an orderBy option to order the file!`);            
         });
+        test('should keep the existing destination when the options are invalid', async () => {
+            fs.writeFileSync('./output/files/keep.csv', 'id\n1\n');
+            const options: SortOptions = { source: './tests/unordered-id.csv', destination: './output/files/keep.csv', orderBy: ['id'] };
+            await expect(sort({ ...options, maxRejects: 3 })).rejects.toThrow(ValidationError);
+            await expect(sort({ ...options, where: { column: 'unknown', op: '=', value: 1 } })).rejects.toThrow(ValidationError);
+            expect(readAllText('./output/files/keep.csv')).toBe('id\n1\n');
+        });
         test('should keep db when specified', async () => {
             if(fs.existsSync('./output/files/unordered-id.sorted.csv')) {
                 fs.rmSync('./output/files/unordered-id.sorted.csv');
@@ -534,6 +606,67 @@ ghi,2,beef,meat,4
 ghi,3,beef,meat,5
 `);
         });                
+        test('where filter on columns that must be quoted', async () => {
+            const logs: string[] = [];
+            await sort({
+                source: './tests/unordered-special-chars.csv',
+                destination: './output/files/unordered-special-chars.sorted.csv',
+                orderBy: ['id'],
+                where: {
+                    and: [
+                        { column: `f'b`, op: '<>', value: `a'e` },
+                        { column: 'FOO BAR', op: 'in', values: ['a b', 'a e', `a c'); drop table DATA; --`] },
+                    ],
+                },
+                logger: msg => logs.push(msg),
+            });
+            const output = readAllText('./output/files/unordered-special-chars.sorted.csv');
+            expect(output).toBe(`id,"foo bar",f/b,"f'b",f&b,"f ""b"""
+1,"a b",a/b,"a'b",a&b,"a ""b"""
+`);
+            expect(logs).toContain(`   select * from DATA where ("f'b" <> 'a''e' and "foo bar" in ('a b', 'a e', 'a c''); drop table DATA; --')) order by id;`);
+        });
+        test('where filter on age, as number', async () => {
+            await sort({
+                source: './tests/unordered-id.csv',
+                destination: './output/files/unordered-id.sorted.csv',
+                schema: [
+                    'id',
+                    'name',
+                    { name: 'age', type: 'number' },
+                ],
+                orderBy: ['id'],
+                where: { or: [{ column: 'age', op: '>', value: 4 }, { column: 'name', op: 'like', value: 'S%' }] },
+            });
+            const output = readAllText('./output/files/unordered-id.sorted.csv');
+            expect(output).toBe(`id,name,age
+1,john,12
+2,sarah,1
+5,sally,4
+6,stan,3
+7,paul,33
+`);
+        });
+        test('where filter on an unknown column', async () => {
+            await expect(async () => {
+                await sort({
+                    source: './tests/unordered-id.csv',
+                    destination: './output/files/unordered-id.sorted.csv',
+                    orderBy: ['id'],
+                    where: { column: 'id; drop table DATA', op: '=', value: 1 },
+                });
+            }).rejects.toThrow(`Column 'id; drop table DATA' of the where filter is not in the header of './tests/unordered-id.csv': (id, name, age)!`);
+        });
+        test('where filter on an input stream without schema', async () => {
+            await expect(async () => {
+                await sortStream({
+                    input: fs.createReadStream('./tests/unordered-id.csv'),
+                    output: new Writable(),
+                    orderBy: ['id'],
+                    where: { column: 'id', op: '=', value: 1 },
+                });
+            }).rejects.toThrow('The where and having filters require a schema when sorting an input stream!');
+        });
     });
     describe('formats', () => {
         test('should work with tabs', async () => {
@@ -622,5 +755,2262 @@ ghi,3,beef,meat,5
 7,paul,33
 `);
         });        
+        test.each(['sqlite', 'merge'] as const)('should quote all the fields with CRLF line endings and read them back with the %s engine', async (engine) => {
+            const logs: string[] = [];
+            await sort({
+                source: './tests/unordered-special-chars.csv',
+                destination: { filename: `./output/files/special-chars.quoted.${engine}.csv`, quoting: 'all', lineEnding: '\r\n' },
+                orderBy: ['id'],
+                engine,
+                logger: msg => logs.push(msg),
+            });
+            expect(readAllText(`./output/files/special-chars.quoted.${engine}.csv`)).toBe(`"id","foo bar","f/b","f'b","f&b","f ""b"""\r
+"1","a b","a/b","a'b","a&b","a ""b"""\r
+"2","a c","a/c","a'c","a&c","a ""c"""\r
+"3","a e","a/e","a'e","a&e","a ""e"""\r
+`);
+            expect(logs).toContain(`Format the destination ./output/files/special-chars.quoted.${engine}.csv with the all quoting`);
+            await sort({
+                source: `./output/files/special-chars.quoted.${engine}.csv`,
+                destination: `./output/files/special-chars.roundtrip.${engine}.csv`,
+                orderBy: ['id'],
+                engine,
+            });
+            await sort({
+                source: './tests/unordered-special-chars.csv',
+                destination: `./output/files/special-chars.sorted.${engine}.csv`,
+                orderBy: ['id'],
+                engine,
+            });
+            expect(readAllText(`./output/files/special-chars.roundtrip.${engine}.csv`)).toBe(readAllText(`./output/files/special-chars.sorted.${engine}.csv`));
+        });
+        test('should quote the non numeric fields with single quotes and read them back', async () => {
+            await sort({
+                source: './tests/unordered-special-chars.csv',
+                destination: { filename: './output/files/special-chars.single.tsv', format: 'tsv', quoting: 'nonnumeric', quoteChar: `'` },
+                schema: [{ name: 'id', type: 'integer' }, 'foo bar', 'f/b', `f'b`, 'f&b', 'f "b"'],
+                orderBy: [{ name: 'id', sortDirection: 'DESC' }],
+            });
+            const output = readAllText('./output/files/special-chars.single.tsv');
+            expect(output).toBe(`'id'	'foo bar'	'f/b'	'f''b'	'f&b'	'f "b"'
+3	'a e'	'a/e'	'a''e'	'a&e'	'a "e"'
+2	'a c'	'a/c'	'a''c'	'a&c'	'a "c"'
+1	'a b'	'a/b'	'a''b'	'a&b'	'a "b"'
+`);
+            const records = new CsvParser('\t', `'`).push(output);
+            expect(records).toEqual([
+                ['id', 'foo bar', 'f/b', `f'b`, 'f&b', 'f "b"'],
+                ['3', 'a e', 'a/e', `a'e`, 'a&e', 'a "e"'],
+                ['2', 'a c', 'a/c', `a'c`, 'a&c', 'a "c"'],
+                ['1', 'a b', 'a/b', `a'b`, 'a&b', 'a "b"'],
+            ]);
+        });
+        test('should escape the special characters without quoting', async () => {
+            await sort({
+                source: './tests/unordered-special-chars.csv',
+                destination: { filename: './output/files/special-chars.escaped.csv', quoting: 'none', escapeChar: '\\', writeHeader: false },
+                orderBy: ['id'],
+                select: ['id', 'f "b"'],
+            });
+            expect(readAllText('./output/files/special-chars.escaped.csv')).toBe(`1,a \\"b\\"
+2,a \\"c\\"
+3,a \\"e\\"
+`);
+            await expect(sort({
+                source: './tests/unordered-special-chars.csv',
+                destination: { filename: './output/files/special-chars.escaped.csv', quoting: 'none' },
+                orderBy: ['id'],
+            })).rejects.toThrow(new ValidationError('The none quoting requires an escapeChar!'));
+            // the destination is validated before being replaced
+            expect(readAllText('./output/files/special-chars.escaped.csv')).toBe(`1,a \\"b\\"\n2,a \\"c\\"\n3,a \\"e\\"\n`);
+        });
+        test.each(['sqlite', 'merge'] as const)('should detect the delimiter and the quote character with the %s engine', async (engine) => {
+            const logs: string[] = [];
+            fs.writeFileSync('./output/files/auto-semicolon.csv', 'id;name\n2;"b;c"\n1;a\n');
+            fs.writeFileSync('./output/files/auto-single.csv', `id|name\n4|'it''s'\n3|'d|e'\n`);
+            await sort({
+                source: [
+                    { filename: './output/files/auto-semicolon.csv', delimiter: 'auto' },
+                    { filename: './output/files/auto-single.csv', delimiter: 'auto' },
+                ],
+                destination: `./output/files/auto.${engine}.csv`,
+                orderBy: ['id'],
+                engine,
+                logger: msg => logs.push(msg),
+            });
+            expect(readAllText(`./output/files/auto.${engine}.csv`)).toBe(`id,name
+1,a
+2,b;c
+3,d|e
+4,"it's"
+`);
+            expect(logs).toContain('Detect the delimiter ";" and the quote character "\\"" of ./output/files/auto-semicolon.csv');
+            expect(logs).toContain(`Detect the delimiter "|" and the quote character "'" of ./output/files/auto-single.csv`);
+        });
+        test('should detect the dialect of a file', () => {
+            expect(detectDialect('./tests/unordered-id.psv')).toEqual({ delimiter: '|', quoteChar: '"' });
+            expect(detectDialect({ filename: './tests/unordered-id.tsv' })).toEqual({ delimiter: '\t', quoteChar: '"' });
+            expect(() => detectDialect('./tests/missing.csv')).toThrow(`File './tests/missing.csv' does not exist!`);
+            expect(inferSchema({ filename: './tests/unordered-id.psv', delimiter: 'auto' })).toEqual([
+                { name: 'id', type: 'number' },
+                { name: 'name', type: 'string' },
+                { name: 'age', type: 'number' },
+            ]);
+        });
+        test('should validate the delimiters', async () => {
+            const options: SortOptions = {
+                source: './tests/unordered-id.csv',
+                destination: './output/files/unordered-id.delimiter.csv',
+                orderBy: ['id'],
+            };
+            for (const delimiter of ['"', '\\', '\n', '', '||']) {
+                await expect(sort({ ...options, destination: { filename: './output/files/unordered-id.delimiter.csv', delimiter } }))
+                    .rejects.toThrow(`The delimiter ${JSON.stringify(delimiter)} must be a single character other than a double quote, a backslash and the line breaks!`);
+            }
+            await expect(sort({ ...options, source: { filename: './tests/unordered-id.csv', delimiter: '"' } }))
+                .rejects.toThrow(`The delimiter "\\"" must be a single character other than a double quote, a backslash and the line breaks!`);
+            await expect(sort({ ...options, destination: { filename: './output/files/unordered-id.delimiter.csv', delimiter: 'auto' } })).rejects.toThrow('The auto delimiter is only supported by the sources!');
+            await expect(sort({ ...options, join: { source: { filename: './tests/lookup-teams.csv', quoteChar: `'` }, keys: ['id'] } }))
+                .rejects.toThrow('The quoting, quoteChar, escapeChar and lineEnding options are only supported by the sources and the destination!');
+            await expect(sort({ ...options, source: { filename: './tests/unordered-id.csv', quoteChar: ',' } }))
+                .rejects.toThrow('The quoteChar and escapeChar options must be a single character, other than the delimiter and the line breaks!');
+            await expect(sortStream({
+                input: { stream: Readable.from(['id\n1\n']), delimiter: 'auto' },
+                output: new Writable({ write: (_chunk, _encoding, callback) => callback() }),
+                orderBy: ['id'],
+            })).rejects.toThrow('The delimiter cannot be detected from an input stream!');
+            await expect(sort({ ...options, source: { filename: './output/files/auto-single.csv', delimiter: 'auto' }, skipIfSorted: true }))
+                .rejects.toThrow('The skipIfSorted option cannot be used with the options changing the rows or the columns!');
+        });
+        test('should validate the dialect options', async () => {
+            const options: SortOptions = {
+                source: './tests/unordered-id.csv',
+                destination: './output/files/unordered-id.dialect.csv',
+                orderBy: ['id'],
+            };
+            await expect(sort({ ...options, source: { filename: './tests/unordered-id.csv', quoting: 'all' } })).rejects.toThrow('The quoting, escapeChar and lineEnding options are only supported by the destination!');
+            await expect(sort({ ...options, destination: { filename: './output/files/unordered-id.dialect.json', format: 'json', quoting: 'all' } }))
+                .rejects.toThrow('The quoting, quoteChar, escapeChar and lineEnding options require a single csv or tsv destination file!');
+            await expect(sort({ ...options, destination: { filename: './output/files/unordered-id.{index}.csv', quoting: 'all' }, maxRowsPerFile: 2 }))
+                .rejects.toThrow('The quoting, quoteChar, escapeChar and lineEnding options require a single csv or tsv destination file!');
+            for (const quoteChar of ['', `''`, ',', '\n']) {
+                await expect(sort({ ...options, destination: { filename: './output/files/unordered-id.dialect.csv', quoteChar } }))
+                    .rejects.toThrow('The quoteChar and escapeChar options must be a single character, other than the delimiter and the line breaks!');
+            }
+            await expect(sort({ ...options, destination: { filename: './output/files/unordered-id.dialect.csv', lineEnding: '\r' as '\n' } })).rejects.toThrow('The line ending must be either \\n or \\r\\n!');
+            await expect(sort({ ...options, destination: { filename: './output/files/unordered-id.dialect.csv', quoting: 'all' }, skipIfSorted: true }))
+                .rejects.toThrow('The skipIfSorted option cannot be used with the options changing the rows or the columns!');
+        });
     })
+    describe('multiple sources', () => {
+        test('should sort a list of parts as one dataset', async () => {
+            const logs: string[] = [];
+            await sort({
+                source: [
+                    './tests/parts/part-0001.csv',
+                    './tests/parts/part-0002.csv',
+                    {
+                        filename: './tests/parts/part-0003.psv',
+                        delimiter: '|',
+                    },
+                ],
+                destination: './output/files/parts.sorted.csv',
+                orderBy: ['id'],
+                logger: msg => logs.push(msg),
+            });
+            const output = readAllText('./output/files/parts.sorted.csv');
+            expect(output).toBe(`id,name,age
+1,john,12
+2,sarah,1
+3,mary,2
+5,sally,4
+6,stan,3
+7,paul,33
+`);
+            expect(logs).toContain('   .import "./tests/parts/part-0001.csv" DATA');
+            expect(logs).toContain('   .import --skip 1 "./tests/parts/part-0002.csv" DATA');
+            expect(logs).toContain('   .separator "|"');
+            expect(logs).toContain('   .import --skip 1 "./tests/parts/part-0003.psv" DATA');
+        });
+        test('should expand wildcards and restore the separator between parts', async () => {
+            const logs: string[] = [];
+            await sort({
+                source: [
+                    {
+                        filename: './tests/parts/part-*.psv',
+                        delimiter: '|',
+                    },
+                    './tests/parts/part-000?.csv',
+                ],
+                destination: './output/files/parts.sorted.csv',
+                schema: ['id', 'name', { name: 'age', type: 'number' }],
+                orderBy: ['age'],
+                logger: msg => logs.push(msg),
+            });
+            const output = readAllText('./output/files/parts.sorted.csv');
+            expect(output).toBe(`id,name,age
+2,sarah,1
+3,mary,2
+6,stan,3
+5,sally,4
+1,john,12
+7,paul,33
+`);
+            const script = logs.filter(x => x.startsWith('   .')).slice(0, 7);
+            expect(script).toEqual([
+                '   .mode csv',
+                '   .separator "|"',
+                '   .import --skip 1 "tests/parts/part-0003.psv" DATA',
+                '   .separator ","',
+                '   .import --skip 1 "tests/parts/part-0001.csv" DATA',
+                '   .import --skip 1 "tests/parts/part-0002.csv" DATA',
+                '   .separator ","',
+            ]);
+        });
+        test('should report a wildcard that does not match any file', async () => {
+            await expect(async () => {
+                await sort({
+                    source: './tests/parts/missing-*.csv',
+                    destination: './output/files/parts.sorted.csv',
+                    orderBy: ['id'],
+                });
+            }).rejects.toThrow(`File './tests/parts/missing-*.csv' does not exist!`);
+            await expect(async () => {
+                await sort({
+                    source: './tests/missing-folder/part-*.csv',
+                    destination: './output/files/parts.sorted.csv',
+                    orderBy: ['id'],
+                });
+            }).rejects.toThrow(`File './tests/missing-folder/part-*.csv' does not exist!`);
+        });
+        test('should not accept an empty list of sources', async () => {
+            await expect(async () => {
+                await sort({
+                    source: [],
+                    destination: './output/files/parts.sorted.csv',
+                    orderBy: ['id'],
+                });
+            }).rejects.toThrow('You must provide at least one source file!');
+        });
+        test('should name the part whose header does not match', async () => {
+            await expect(async () => {
+                await sort({
+                    source: './tests/parts-mismatch/part-*.csv',
+                    destination: './output/files/parts.sorted.csv',
+                    orderBy: ['id'],
+                });
+            }).rejects.toThrow(`Header of part 'tests/parts-mismatch/part-0002.csv' does not match the header of 'tests/parts-mismatch/part-0001.csv': expected (id, name, age) but found (id, age, name)!`);
+        });
+    });
+    describe('distinct', () => {
+        test('should keep the first row of each key', async () => {
+            const result = await sort({
+                source: './tests/duplicated-id.csv',
+                destination: './output/files/duplicated-id.sorted.csv',
+                orderBy: ['id'],
+                distinct: ['id'],
+            });
+            const output = readAllText('./output/files/duplicated-id.sorted.csv');
+            expect(output).toBe(`id,name,version
+1,john,1
+2,sarah,5
+3,mary,2
+`);
+            expect(result).toEqual({ duplicateCount: 4 });
+        });
+        test('should keep the last row of each key', async () => {
+            const result = await sort({
+                source: './tests/duplicated-id.csv',
+                destination: './output/files/duplicated-id.sorted.csv',
+                orderBy: ['id'],
+                distinct: {
+                    uniqueBy: ['id'],
+                    keep: 'last',
+                },
+            });
+            const output = readAllText('./output/files/duplicated-id.sorted.csv');
+            expect(output).toBe(`id,name,version
+1,john,2
+2,sarah,5
+3,mary,3
+`);
+            expect(result.duplicateCount).toBe(4);
+        });
+        test('should keep the row with the min value of the tiebreaker', async () => {
+            await sort({
+                source: './tests/duplicated-id.csv',
+                destination: './output/files/duplicated-id.sorted.csv',
+                schema: ['id', 'name', { name: 'version', type: 'number' }],
+                orderBy: ['id'],
+                distinct: {
+                    uniqueBy: ['id', 'name'],
+                    keep: 'min',
+                    tiebreaker: 'version',
+                },
+            });
+            const output = readAllText('./output/files/duplicated-id.sorted.csv');
+            expect(output).toBe(`id,name,version
+1,john,1
+2,sarah,5
+3,mary,1
+`);
+        });
+        test('should keep the row with the max value of the tiebreaker and write the duplicates', async () => {
+            const options: SortOptions = {
+                source: './tests/duplicated-id.csv',
+                destination: './output/files/duplicated-id.sorted.csv',
+                orderBy: ['id'],
+                distinct: {
+                    uniqueBy: ['id'],
+                    keep: 'max',
+                    tiebreaker: 'version',
+                    duplicates: {
+                        filename: './output/files/duplicated-id.duplicates.psv',
+                        delimiter: '|',
+                    },
+                },
+            };
+            await sort(options);
+            // the previous duplicates file should be replaced
+            const result = await sort(options);
+            const output = readAllText('./output/files/duplicated-id.sorted.csv');
+            expect(output).toBe(`id,name,version
+1,john,3
+2,sarah,5
+3,mary,3
+`);
+            const duplicates = readAllText('./output/files/duplicated-id.duplicates.psv');
+            expect(duplicates).toBe(`id|name|version
+3|mary|2
+1|john|1
+3|mary|1
+1|john|2
+`);
+            expect(result.duplicateCount).toBe(4);
+        });
+        test('should write the duplicates with the default delimiter', async () => {
+            await sort({
+                source: './tests/duplicated-id.csv',
+                destination: './output/files/duplicated-id.sorted.csv',
+                orderBy: ['id'],
+                distinct: {
+                    uniqueBy: ['id'],
+                    duplicates: './output/files/duplicated-id.duplicates.csv',
+                },
+            });
+            const duplicates = readAllText('./output/files/duplicated-id.duplicates.csv');
+            expect(duplicates).toBe(`id,name,version
+3,mary,1
+1,john,3
+1,john,2
+3,mary,3
+`);
+        });
+        test('should keep the existing duplicates file when the options are invalid', async () => {
+            fs.writeFileSync('./output/files/keep.duplicates.csv', 'id\n1\n');
+            await expect(sort({
+                source: './tests/duplicated-id.csv',
+                destination: './output/files/duplicated-id.sorted.csv',
+                orderBy: ['id'],
+                distinct: { uniqueBy: ['id'], duplicates: './output/files/keep.duplicates.csv' },
+                maxRejects: 3,
+            })).rejects.toThrow(ValidationError);
+            expect(readAllText('./output/files/keep.duplicates.csv')).toBe('id\n1\n');
+        });
+        test('should not accept an empty uniqueBy option', async () => {
+            await expect(async () => {
+                await sort({
+                    source: './tests/duplicated-id.csv',
+                    destination: './output/files/duplicated-id.sorted.csv',
+                    orderBy: ['id'],
+                    distinct: [],
+                });
+            }).rejects.toThrow('You must provide the uniqueBy columns when removing duplicates!');
+        });
+        test('should require a tiebreaker with the min and max policies', async () => {
+            await expect(async () => {
+                await sort({
+                    source: './tests/duplicated-id.csv',
+                    destination: './output/files/duplicated-id.sorted.csv',
+                    orderBy: ['id'],
+                    distinct: {
+                        uniqueBy: ['id'],
+                        keep: 'max',
+                    },
+                });
+            }).rejects.toThrow('You must provide a tiebreaker column when keeping the max row!');
+        });
+    });
+    describe('sortStream', () => {
+        class TextWriter extends Writable {
+            text = '';
+            constructor(private delay = false) {
+                super({ highWaterMark: 16 });
+            }
+            _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+                this.text += chunk.toString();
+                if (this.delay) {
+                    setImmediate(callback);
+                } else {
+                    callback();
+                }
+            }
+        }
+        test('should sort from a readable to a writable', async () => {
+            const output = new TextWriter();
+            const logs: string[] = [];
+            await sortStream({
+                input: fs.createReadStream('./tests/unordered-id.csv'),
+                output,
+                orderBy: ['id'],
+                logger: msg => logs.push(msg),
+            });
+            expect(output.text).toBe(`id,name,age
+1,john,12
+2,sarah,1
+3,mary,2
+5,sally,4
+6,stan,3
+7,paul,33
+`);
+            expect(output.writableFinished).toBeTruthy();
+            expect(logs).toContain('   .import "|cat <&3" DATA');
+            expect(logs).toContain('   .output "|cat >&4"');
+            const dbLog = logs.find(x => x.startsWith('Delete DB '));
+            expect(dbLog).toBeDefined();
+            expect(fs.existsSync(dbLog!.substring('Delete DB '.length))).toBeFalsy();
+        });
+        test('should support custom delimiters', async () => {
+            const output = new TextWriter();
+            await sortStream({
+                input: {
+                    stream: fs.createReadStream('./tests/unordered-id.tsv'),
+                    delimiter: '\t',
+                },
+                output: {
+                    stream: output,
+                    delimiter: '|',
+                },
+                schema: ['id', 'name', { name: 'age', type: 'number' }],
+                orderBy: ['age'],
+                sqlite: {
+                    filename: './output/files/test.sqlite',
+                },
+            });
+            expect(output.text).toBe(`id|name|age
+2|sarah|1
+3|mary|2
+6|stan|3
+5|sally|4
+1|john|12
+7|paul|33
+`);
+        });
+        test('should respect the backpressure of a slow writable', async () => {
+            const rowCount = 20000;
+            function* generateRows() {
+                yield 'id,name\n';
+                for (let i = rowCount; i > 0; i--) {
+                    yield `${i},name ${i}\n`;
+                }
+            }
+            const output = new TextWriter(true);
+            await sortStream({
+                input: Readable.from(generateRows()),
+                output,
+                schema: [{ name: 'id', type: 'number' }, 'name'],
+                orderBy: ['id'],
+            });
+            const lines = output.text.split('\n');
+            expect(lines.length).toBe(rowCount + 2);
+            expect(lines[1]).toBe('1,"name 1"');
+            expect(lines[rowCount]).toBe(`${rowCount},"name ${rowCount}"`);
+        });
+        test('should sort to the standard output, which is never ended', async () => {
+            const logs: string[] = [];
+            const { text } = await captureStdout(() => sortStream({
+                input: fs.createReadStream('./tests/unordered-id.csv'),
+                output: process.stdout,
+                orderBy: ['id'],
+                limit: 2,
+                logger: msg => logs.push(msg),
+            }));
+            expect(text).toBe('id,name,age\n1,john,12\n2,sarah,1\n');
+            expect(process.stdout.writableEnded).toBeFalsy();
+            const dbLog = logs.find(x => x.startsWith('Delete DB '));
+            expect(dbLog).toBeDefined();
+            expect(fs.existsSync(dbLog!.substring('Delete DB '.length))).toBeFalsy();
+        });
+        test('should fail when the input stream fails', async () => {
+            const input = new Readable({
+                read() {
+                    this.push('id,name\n1,john\n');
+                    this.destroy(new Error('connection lost'));
+                },
+            });
+            await expect(async () => {
+                await sortStream({
+                    input,
+                    output: new TextWriter(),
+                    orderBy: ['id'],
+                });
+            }).rejects.toThrow('connection lost');
+        });
+        test('should fail when the output stream fails', async () => {
+            const output = new Writable({
+                write(_chunk, _encoding, callback) {
+                    callback(new Error('disk full'));
+                },
+            });
+            await expect(async () => {
+                await sortStream({
+                    input: fs.createReadStream('./tests/unordered-id.csv'),
+                    output,
+                    orderBy: ['id'],
+                });
+            }).rejects.toThrow('disk full');
+        });
+        test('should fail when the schema does not match the input stream', async () => {
+            await expect(async () => {
+                await sortStream({
+                    input: fs.createReadStream('./tests/unordered-id.csv'),
+                    output: new TextWriter(),
+                    schema: ['id', 'age'],
+                    orderBy: ['id'],
+                });
+            }).rejects.toThrow('SQLite command was killed because a column mismatch between schema and inputs was detected.');
+        });
+    });
+    describe('sortedRows', () => {
+        test('should iterate the sorted rows', async () => {
+            const rows: Row[] = [];
+            for await (const row of sortedRows({
+                source: './tests/unordered-id.csv',
+                orderBy: ['id'],
+                limit: 3,
+            })) {
+                rows.push(row);
+            }
+            expect(rows).toEqual([
+                { id: '1', name: 'john', age: '12' },
+                { id: '2', name: 'sarah', age: '1' },
+                { id: '3', name: 'mary', age: '2' },
+            ]);
+        });
+        test('should convert the number columns', async () => {
+            const rows: Row[] = [];
+            for await (const row of sortedRows({
+                source: './tests/unordered-code-version.csv',
+                schema: [
+                    'code',
+                    { name: 'version', type: 'number' },
+                    'name',
+                    'category',
+                    { name: 'price', type: 'number' },
+                ],
+                select: ['code', 'version', 'price'],
+                orderBy: ['price'],
+                where: `category = 'fruit' or price > 4`,
+            })) {
+                rows.push(row);
+            }
+            expect(rows).toEqual([
+                { code: 'abc', version: 2, price: 0.2 },
+                { code: 'abc', version: 1, price: 0.21 },
+                { code: 'abc', version: 3, price: 0.22 },
+                { code: 'def', version: 1, price: 0.28 },
+                { code: 'def', version: 2, price: 0.3 },
+                { code: 'def', version: 3, price: 0.33 },
+                { code: 'ghi', version: 3, price: 5 },
+            ]);
+        });
+        test('should keep the values that are not numbers', async () => {
+            const rows: Row[] = [];
+            fs.writeFileSync('./output/files/not-numbers.csv', 'id,amount\n1,12\n2,\n3,n/a\n');
+            for await (const row of sortedRows({
+                source: './output/files/not-numbers.csv',
+                schema: ['id', { name: 'amount', type: 'number' }],
+                orderBy: ['id'],
+            })) {
+                rows.push(row);
+            }
+            expect(rows).toEqual([
+                { id: '1', amount: 12 },
+                { id: '2', amount: '' },
+                { id: '3', amount: 'n/a' },
+            ]);
+        });
+        test('should delete the temporary db when breaking out early', async () => {
+            const rowCount = 20000;
+            const lines = ['id,name'];
+            for (let i = rowCount; i > 0; i--) {
+                lines.push(`${i},name ${i}`);
+            }
+            fs.writeFileSync('./output/files/many-rows.csv', lines.join('\n') + '\n');
+            const logs: string[] = [];
+            const rows: Row[] = [];
+            for await (const row of sortedRows({
+                source: './output/files/many-rows.csv',
+                schema: [{ name: 'id', type: 'number' }, 'name'],
+                orderBy: ['id'],
+                sqlite: {
+                    filename: './output/files/rows.sqlite',
+                },
+                logger: msg => logs.push(msg),
+            })) {
+                rows.push(row);
+                if (rows.length === 10) {
+                    break;
+                }
+            }
+            expect(rows[9]).toEqual({ id: 10, name: 'name 10' });
+            expect(logs).toContain('Delete DB ./output/files/rows.sqlite');
+            expect(fs.existsSync('./output/files/rows.sqlite')).toBeFalsy();
+        });
+        test('should fail when the source does not exist', async () => {
+            await expect(async () => {
+                for await (const _row of sortedRows({
+                    source: './tests/file-should-not-exist.csv',
+                    orderBy: ['id'],
+                })) {
+                    // should not be reached
+                }
+            }).rejects.toThrow(`File './tests/file-should-not-exist.csv' does not exist!`);
+        });
+        test('should fail when the schema does not match the source', async () => {
+            await expect(async () => {
+                for await (const _row of sortedRows({
+                    source: './tests/unordered-id.csv',
+                    schema: ['id', 'age'],
+                    orderBy: ['id'],
+                })) {
+                    // should not be reached
+                }
+            }).rejects.toThrow('SQLite command was killed because a column mismatch between schema and inputs was detected.');
+        });
+    });
+    describe('merge engine', () => {
+        const cases: [string, Omit<SortOptions, 'destination'>][] = [
+            ['one order key', { source: './tests/unordered-id.csv', orderBy: ['id'] }],
+            ['two order keys and 2nd descending', { source: './tests/unordered-code-version.csv', orderBy: ['code', { name: 'version', sortDirection: 'DESC' }] }],
+            ['three order keys and first descending', { source: './tests/unordered-code-version.csv', orderBy: [{ name: 'category', sortDirection: 'DESC' }, 'code', 'version'] }],
+            ['special chars', { source: './tests/unordered-special-chars.csv', orderBy: ['f "b"'] }],
+            ['unicode', { source: './tests/unordered-unicode.csv', orderBy: ['name'] }],
+            ['numbers', { source: './tests/unordered-numbers.csv', schema: ['id', { name: 'value', type: 'number' }, 'label'], orderBy: ['value', 'id'] }],
+            ['numbers descending', { source: './tests/unordered-numbers.csv', schema: [{ name: 'id', type: 'number' }, { name: 'value', type: 'number' }, 'label'], orderBy: [{ name: 'value', sortDirection: 'DESC' }] }],
+            ['same keys in ascending order', { source: './tests/duplicated-id.csv', orderBy: ['id'] }],
+            ['same keys in descending order', { source: './tests/duplicated-id.csv', orderBy: [{ name: 'id', sortDirection: 'DESC' }] }],
+            ['select', { source: './tests/unordered-id.csv', select: ['AGE', 'name'], orderBy: ['ID'] }],
+            ['renamed columns', { source: './tests/unordered-id.csv', select: [{ name: 'age', as: 'The Age' }, 'name'], orderBy: ['id'] }],
+            ['limit', { source: './tests/unordered-id.csv', orderBy: ['id'], limit: 2 }],
+            ['offset and limit', { source: './tests/unordered-id.csv', orderBy: ['id'], offset: 1, limit: 2 }],
+            ['tabs', { source: { filename: './tests/unordered-id.tsv', delimiter: '\t' }, orderBy: ['id'] }],
+            ['multiple sources', { source: ['./tests/parts/part-*.csv', { filename: './tests/parts/part-0003.psv', delimiter: '|' }], orderBy: ['name'] }],
+        ];
+        test.each(cases)('should produce the same output as sqlite: %s', async (_name, options) => {
+            await sort({
+                ...options,
+                destination: './output/files/engine.sqlite.csv',
+            });
+            await sort({
+                ...options,
+                destination: './output/files/engine.merge.csv',
+                engine: 'merge',
+                merge: {
+                    memoryBudget: 200,
+                },
+            });
+            const expected = readAllText('./output/files/engine.sqlite.csv');
+            const output = readAllText('./output/files/engine.merge.csv');
+            expect(output).toBe(expected);
+        });
+        test('should produce the same output with a custom delimiter', async () => {
+            await sort({
+                source: './tests/unordered-special-chars.csv',
+                destination: { filename: './output/files/engine.sqlite.psv', delimiter: '|' },
+                orderBy: ['id'],
+            });
+            await sort({
+                source: './tests/unordered-special-chars.csv',
+                destination: { filename: './output/files/engine.merge.psv', delimiter: '|' },
+                orderBy: ['id'],
+                engine: 'merge',
+            });
+            const expected = readAllText('./output/files/engine.sqlite.psv');
+            const output = readAllText('./output/files/engine.merge.psv');
+            expect(output).toBe(expected);
+        });
+        test('should sort a stream', async () => {
+            const chunks: string[] = [];
+            const output = new Writable({
+                write(chunk, _encoding, callback) {
+                    chunks.push(chunk.toString());
+                    callback();
+                },
+            });
+            await sortStream({
+                input: fs.createReadStream('./tests/unordered-id.csv'),
+                output,
+                orderBy: ['id'],
+                engine: 'merge',
+            });
+            expect(chunks.join('')).toBe(`id,name,age
+1,john,12
+2,sarah,1
+3,mary,2
+5,sally,4
+6,stan,3
+7,paul,33
+`);
+        });
+        test('should iterate the sorted rows and stop early', async () => {
+            const rows: Row[] = [];
+            for await (const row of sortedRows({
+                source: './tests/unordered-numbers.csv',
+                schema: ['id', { name: 'value', type: 'number' }, 'label'],
+                orderBy: ['value'],
+                engine: 'merge',
+                merge: {
+                    memoryBudget: 100,
+                    tempDir: './output/files',
+                },
+            })) {
+                rows.push(row);
+                if (rows.length === 3) {
+                    break;
+                }
+            }
+            expect(rows).toEqual([
+                { id: '5', value: -3, label: 'e' },
+                { id: '11', value: 0, label: 'k' },
+                { id: '13', value: 1e-7, label: 'm' },
+            ]);
+            expect(fs.readdirSync('./output/files').filter(name => name.startsWith('huge-csv-sorter-'))).toEqual([]);
+        });
+        test('should not support the where option', async () => {
+            await expect(async () => {
+                await sort({
+                    source: './tests/unordered-id.csv',
+                    destination: './output/files/unordered-id.sorted.csv',
+                    orderBy: ['id'],
+                    where: 'id > 2',
+                    engine: 'merge',
+                });
+            }).rejects.toThrow('The where option is not supported by the merge engine!');
+        });
+    });
+    describe('progress and abort', () => {
+        test('should report the phases of the sort', async () => {
+            const events: ProgressEvent[] = [];
+            const logs: string[] = [];
+            await sort({
+                source: './tests/unordered-id.csv',
+                destination: './output/files/unordered-id.sorted.csv',
+                orderBy: ['id'],
+                sqlite: {
+                    filename: './output/files/test.sqlite',
+                },
+                logger: msg => logs.push(msg),
+                onProgress: event => events.push(event),
+            });
+            expect(events).toEqual([
+                { phase: 'import' },
+                { phase: 'import', rows: 6 },
+                { phase: 'index' },
+                { phase: 'export' },
+            ]);
+            expect(logs.filter(msg => msg.startsWith('[SQLite]'))).toEqual([]);
+        });
+        test('should report the bytes of the streams', async () => {
+            const events: ProgressEvent[] = [];
+            const input = readAllText('./tests/unordered-id.csv');
+            const chunks: string[] = [];
+            const output = new Writable({
+                write(chunk, _encoding, callback) {
+                    chunks.push(chunk.toString());
+                    callback();
+                },
+            });
+            await sortStream({
+                input: Readable.from([input]),
+                output,
+                orderBy: ['id'],
+                sqlite: {
+                    filename: './output/files/test.sqlite',
+                    createIndex: false,
+                },
+                onProgress: event => events.push(event),
+            });
+            const outputBytes = Buffer.byteLength(chunks.join(''));
+            expect(events.map(event => event.phase)).not.toContain('index');
+            expect(events).toContainEqual({ phase: 'import', bytes: Buffer.byteLength(input) });
+            expect(events).toContainEqual({ phase: 'import', rows: 6 });
+            expect(events[events.length - 1]).toEqual({ phase: 'export', bytes: outputBytes });
+        });
+        test('should not start when the signal is already aborted', async () => {
+            const controller = new AbortController();
+            controller.abort();
+            await expect(async () => {
+                await sort({
+                    source: './tests/unordered-id.csv',
+                    destination: './output/files/unordered-id.sorted.csv',
+                    orderBy: ['id'],
+                    sqlite: {
+                        filename: './output/files/test.sqlite',
+                    },
+                    signal: controller.signal,
+                });
+            }).rejects.toThrow(AbortError);
+            expect(fs.existsSync('./output/files/test.sqlite')).toBe(false);
+        });
+        test('should kill SQLite and delete the partial files when aborted', async () => {
+            const controller = new AbortController();
+            const error = await sort({
+                source: './tests/duplicated-id.csv',
+                destination: './output/files/duplicated-id.sorted.csv',
+                orderBy: ['id'],
+                distinct: {
+                    uniqueBy: ['id'],
+                    duplicates: './output/files/duplicated-id.duplicates.csv',
+                },
+                sqlite: {
+                    filename: './output/files/test.sqlite',
+                    keepDB: true,
+                },
+                onProgress: event => {
+                    if (event.phase === 'export') {
+                        // the journal files left by the killed SQLite process
+                        fs.writeFileSync('./output/files/test.sqlite-journal', '');
+                        fs.writeFileSync('./output/files/test.sqlite-wal', '');
+                        controller.abort();
+                    }
+                },
+                signal: controller.signal,
+            }).catch(err => err);
+            expect(error).toBeInstanceOf(AbortError);
+            expect(error.name).toBe('AbortError');
+            expect(error.message).toBe('The sort was aborted');
+            expect(fs.existsSync('./output/files/duplicated-id.sorted.csv')).toBe(false);
+            expect(fs.existsSync('./output/files/duplicated-id.duplicates.csv')).toBe(false);
+            expect(fs.readdirSync('./output/files').filter(name => name.startsWith('test.sqlite'))).toEqual([]);
+        });
+        test('should abort a stream that never ends', async () => {
+            const controller = new AbortController();
+            const input = new Readable({
+                read() {
+                },
+            });
+            input.push('id,name\n1,john\n');
+            const chunks: string[] = [];
+            const output = new Writable({
+                write(chunk, _encoding, callback) {
+                    chunks.push(chunk.toString());
+                    callback();
+                },
+            });
+            await expect(async () => {
+                await sortStream({
+                    input,
+                    output,
+                    orderBy: ['id'],
+                    sqlite: {
+                        filename: './output/files/test.sqlite',
+                    },
+                    onProgress: () => controller.abort(),
+                    signal: controller.signal,
+                });
+            }).rejects.toThrow(AbortError);
+            expect(chunks).toEqual([]);
+            expect(fs.existsSync('./output/files/test.sqlite')).toBe(false);
+        });
+    });
+    describe('schema inference', () => {
+        test('should sort with the inferred schema', async () => {
+            const result = await sort({
+                source: './tests/unordered-id.csv',
+                destination: './output/files/unordered-id.sorted.csv',
+                schema: 'infer',
+                orderBy: ['age'],
+                sqlite: {
+                    filename: './output/files/test.sqlite',
+                },
+            });
+            expect(result.schema).toEqual([
+                { name: 'id', type: 'number' },
+                { name: 'name', type: 'string' },
+                { name: 'age', type: 'number' },
+            ]);
+            const output = readAllText('./output/files/unordered-id.sorted.csv');
+            expect(output).toBe(`id,name,age
+2,sarah,1
+3,mary,2
+6,stan,3
+5,sally,4
+1,john,12
+7,paul,33
+`);
+        });
+        test('should infer the schema from a sample of the first part', async () => {
+            const logs: string[] = [];
+            fs.writeFileSync('./output/files/infer-sample.csv', 'id,value,label\n1,0.2,a\n2,1.5,b\n3,1000,c\n4,-3,d\n5,1.5e+20,e\n6,abc,f\n7,,g\n');
+            const result = await sort({
+                source: './output/files/infer-sample.csv',
+                destination: './output/files/infer-sample.sorted.csv',
+                schema: 'infer',
+                sampleSize: 5,
+                orderBy: ['value'],
+                engine: 'merge',
+                logger: msg => logs.push(msg),
+            });
+            expect(result.schema).toEqual([
+                { name: 'id', type: 'number' },
+                { name: 'value', type: 'number' },
+                { name: 'label', type: 'string' },
+            ]);
+            expect(logs).toContain('Schema: id number, value number, label string');
+        });
+        test('should convert the rows with the inferred schema', async () => {
+            const rows: Row[] = [];
+            for await (const row of sortedRows({
+                source: './tests/unordered-id.csv',
+                schema: 'infer',
+                orderBy: ['id'],
+                limit: 2,
+            })) {
+                rows.push(row);
+            }
+            expect(rows).toEqual([
+                { id: 1, name: 'john', age: 12 },
+                { id: 2, name: 'sarah', age: 1 },
+            ]);
+        });
+        test('should expose the inferred schema', () => {
+            expect(inferSchema('./tests/unordered-id.psv')).toEqual([
+                { name: 'id|name|age', type: 'string' },
+            ]);
+            expect(inferSchema({ filename: './tests/unordered-id.psv', delimiter: '|' }, 1)).toEqual([
+                { name: 'id', type: 'number' },
+                { name: 'name', type: 'string' },
+                { name: 'age', type: 'number' },
+            ]);
+            expect(() => inferSchema('./tests/missing.csv')).toThrow(`File './tests/missing.csv' does not exist!`);
+        });
+        test('should not infer the schema of a stream', async () => {
+            await expect(async () => {
+                await sortStream({
+                    input: Readable.from(['id\n1\n']),
+                    output: fs.createWriteStream('./output/files/unordered-id.sorted.csv'),
+                    schema: 'infer',
+                    orderBy: ['id'],
+                });
+            }).rejects.toThrow('The schema cannot be inferred from an input stream!');
+        });
+        test('should require a positive sample size', async () => {
+            await expect(async () => {
+                await sort({
+                    source: './tests/unordered-id.csv',
+                    destination: './output/files/unordered-id.sorted.csv',
+                    schema: 'infer',
+                    sampleSize: 0,
+                    orderBy: ['id'],
+                });
+            }).rejects.toThrow('The sample size must be a positive number!');
+        });
+    });
+    describe('column types', () => {
+        test('should read the other columns from the header', async () => {
+            const logs: string[] = [];
+            const result = await sort({
+                source: {
+                    filename: './tests/unordered-id.psv',
+                    delimiter: '|',
+                },
+                destination: './output/files/unordered-id.sorted.csv',
+                columnTypes: { age: 'number' },
+                orderBy: ['age'],
+                sqlite: {
+                    filename: './output/files/test.sqlite',
+                },
+                logger: msg => logs.push(msg),
+            });
+            expect(result.schema).toEqual([
+                { name: 'id' },
+                { name: 'name' },
+                { name: 'age', type: 'number' },
+            ]);
+            expect(logs).toContain('Schema: id string, name string, age number');
+            const output = readAllText('./output/files/unordered-id.sorted.csv');
+            expect(output).toBe(`id,name,age
+2,sarah,1
+3,mary,2
+6,stan,3
+5,sally,4
+1,john,12
+7,paul,33
+`);
+        });
+        test('should override the types of the schema', async () => {
+            const result = await sort({
+                source: './tests/unordered-id.csv',
+                destination: './output/files/unordered-id.sorted.csv',
+                schema: 'infer',
+                columnTypes: { id: 'string' },
+                orderBy: ['id'],
+                engine: 'merge',
+            });
+            expect(result.schema).toEqual([
+                { name: 'id', type: 'string' },
+                { name: 'name', type: 'string' },
+                { name: 'age', type: 'number' },
+            ]);
+        });
+        test('should fail early with a column that is not in the header', async () => {
+            await expect(async () => {
+                await sort({
+                    source: './tests/unordered-id.csv',
+                    destination: './output/files/unordered-id.sorted.csv',
+                    columnTypes: { price: 'number' },
+                    orderBy: ['id'],
+                    sqlite: {
+                        filename: './output/files/test.sqlite',
+                    },
+                });
+            }).rejects.toThrow(`Column 'price' of columnTypes is not in the header of './tests/unordered-id.csv': (id, name, age)!`);
+            expect(fs.existsSync('./output/files/test.sqlite')).toBe(false);
+        });
+        test('should require a schema with an input stream', async () => {
+            await expect(async () => {
+                await sortStream({
+                    input: Readable.from(['id\n1\n']),
+                    output: fs.createWriteStream('./output/files/unordered-id.sorted.csv'),
+                    columnTypes: { id: 'number' },
+                    orderBy: ['id'],
+                });
+            }).rejects.toThrow('The columnTypes option requires a schema when sorting an input stream!');
+            const chunks: string[] = [];
+            await sortStream({
+                input: Readable.from(['id,name\n10,a\n9,b\n']),
+                output: new Writable({
+                    write(chunk, _encoding, callback) {
+                        chunks.push(chunk.toString());
+                        callback();
+                    },
+                }),
+                schema: ['id', 'name'],
+                columnTypes: { id: 'number' },
+                orderBy: ['id'],
+            });
+            expect(chunks.join('')).toBe('id,name\n9,b\n10,a\n');
+        });
+    });
+    describe('column formats', () => {
+        const schema: SchemaColumn[] = [
+            { name: 'id', type: 'integer' },
+            { name: 'birthday', type: 'date', format: 'DD/MM/YYYY', outputFormat: 'D.M.YYYY' },
+            { name: 'active', type: 'boolean', format: 'Y/N' },
+            { name: 'amount', type: 'real', format: '# ##0,00' },
+            { name: 'updated', type: 'datetime', format: 'DD/MM/YYYY HH:mm', outputFormat: 'YYYY-MM-DDTHH:mm:ss' },
+        ];
+        test.each(['sqlite', 'merge'] as const)('should normalize and format the values with the %s engine', async (engine) => {
+            await sort({
+                source: './tests/unordered-types.csv',
+                destination: './output/files/unordered-types.sorted.csv',
+                schema,
+                orderBy: ['active', { name: 'birthday', sortDirection: 'DESC' }],
+                engine,
+                sqlite: {
+                    filename: './output/files/test.sqlite',
+                },
+            });
+            const output = readAllText('./output/files/unordered-types.sorted.csv');
+            expect(output).toBe(`id,birthday,active,amount,updated
+2,3.1.2001,N,12.0,2024-01-31T09:00:00
+5,29.2.2000,N,1000000.0,2024-01-15T23:59:00
+1,25.12.1990,Y,1234.5,2024-02-01T10:05:00
+3,15.7.1985,Y,-3.25,"01/02/2024 08:59:30"
+6,"",Y,0.0,"29/02/2023 10:00"
+4,unknown,?,n/a,""
+`);
+        });
+        test('should format the selected columns and the duplicates', async () => {
+            const result = await sort({
+                source: './tests/unordered-types.csv',
+                destination: './output/files/unordered-types.sorted.csv',
+                schema,
+                select: ['ACTIVE', 'updated'],
+                orderBy: ['updated'],
+                distinct: {
+                    uniqueBy: ['active'],
+                    duplicates: './output/files/unordered-types.duplicates.csv',
+                },
+                where: `updated >= '2024'`,
+                sqlite: {
+                    filename: './output/files/test.sqlite',
+                },
+            });
+            expect(result.duplicateCount).toBe(3);
+            expect(readAllText('./output/files/unordered-types.sorted.csv')).toBe(`ACTIVE,updated
+N,2024-01-31T09:00:00
+Y,2024-02-01T10:05:00
+`);
+            expect(readAllText('./output/files/unordered-types.duplicates.csv')).toBe(`id,birthday,active,amount,updated
+3,15.7.1985,Y,-3.25,"01/02/2024 08:59:30"
+5,29.2.2000,N,1000000.0,2024-01-15T23:59:00
+6,"",Y,0.0,"29/02/2023 10:00"
+`);
+        });
+        test('should convert the integer and real columns of the rows', async () => {
+            const rows: Row[] = [];
+            for await (const row of sortedRows({
+                source: './tests/unordered-types.csv',
+                schema,
+                select: ['id', 'amount', 'active'],
+                orderBy: ['id'],
+                limit: 2,
+            })) {
+                rows.push(row);
+            }
+            expect(rows).toEqual([
+                { id: 1, amount: 1234.5, active: 'Y' },
+                { id: 2, amount: 12, active: 'N' },
+            ]);
+        });
+        test('should validate the formats before sorting', async () => {
+            await expect(async () => {
+                await sort({
+                    source: './tests/unordered-types.csv',
+                    destination: './output/files/unordered-types.sorted.csv',
+                    schema: ['id', 'birthday', { name: 'active', type: 'boolean', outputFormat: 'yes' }, 'amount', 'updated'],
+                    orderBy: ['id'],
+                    sqlite: {
+                        filename: './output/files/test.sqlite',
+                    },
+                });
+            }).rejects.toThrow(`The format 'yes' of column 'active' must contain the true and false values separated by a slash!`);
+            expect(fs.existsSync('./output/files/test.sqlite')).toBe(false);
+        });
+    });
+    describe('collation and nulls', () => {
+        const cases: [string, SortOptions['orderBy'], string][] = [
+            ['natural', [{ name: 'file', collation: 'natural' }], `id,file,name,score
+4,"","Émile",7
+3,File1.txt,adam,3
+7,File10.txt,"",5
+6,file1.txt,Adam,-1
+2,file2.txt,Zoe,""
+5,file02.txt,"zoé",""
+1,file10.txt,"émile",12
+`],
+            ['nocase with nulls last', [{ name: 'file', collation: 'nocase', nulls: 'last' }, 'id'], `id,file,name,score
+5,file02.txt,"zoé",""
+3,File1.txt,adam,3
+6,file1.txt,Adam,-1
+1,file10.txt,"émile",12
+7,File10.txt,"",5
+2,file2.txt,Zoe,""
+4,"","Émile",7
+`],
+            ['locale descending', [{ name: 'name', collation: 'locale', locale: 'fr', sortDirection: 'DESC' }], `id,file,name,score
+5,file02.txt,"zoé",""
+2,file2.txt,Zoe,""
+1,file10.txt,"émile",12
+4,"","Émile",7
+3,File1.txt,adam,3
+6,file1.txt,Adam,-1
+7,File10.txt,"",5
+`],
+            ['numbers with nulls last', [{ name: 'score', nulls: 'last' }], `id,file,name,score
+6,file1.txt,Adam,-1
+3,File1.txt,adam,3
+7,File10.txt,"",5
+4,"","Émile",7
+1,file10.txt,"émile",12
+2,file2.txt,Zoe,""
+5,file02.txt,"zoé",""
+`],
+            ['descending numbers with nulls first', [{ name: 'score', nulls: 'first', sortDirection: 'DESC' }], `id,file,name,score
+5,file02.txt,"zoé",""
+2,file2.txt,Zoe,""
+1,file10.txt,"émile",12
+4,"","Émile",7
+7,File10.txt,"",5
+3,File1.txt,adam,3
+6,file1.txt,Adam,-1
+`],
+        ];
+        const engines = ['sqlite', 'merge'] as const;
+        test.each(cases.flatMap(([name, orderBy, expected]) => engines.map(engine => [name, engine, orderBy, expected] as const)))('should sort with %s using the %s engine', async (_name, engine, orderBy, expected) => {
+            await sort({
+                source: './tests/unordered-collation.csv',
+                destination: './output/files/unordered-collation.sorted.csv',
+                schema: ['id', 'file', 'name', { name: 'score', type: 'number' }],
+                orderBy,
+                engine,
+                sqlite: {
+                    filename: './output/files/test.sqlite',
+                },
+            });
+            expect(readAllText('./output/files/unordered-collation.sorted.csv')).toBe(expected);
+        });
+        test('should index the sort keys and the empty flags', async () => {
+            const logs: string[] = [];
+            await sort({
+                source: './tests/unordered-collation.csv',
+                destination: './output/files/unordered-collation.sorted.csv',
+                orderBy: [{ name: 'file', collation: 'natural', nulls: 'first', sortDirection: 'DESC' }, { name: 'name', collation: 'nocase' }],
+                sqlite: {
+                    filename: './output/files/test.sqlite',
+                },
+                logger: msg => logs.push(msg),
+            });
+            expect(logs).toContain('   create index DATA_IDX on DATA (coalesce("file:natural", \'\') = \'\', "file:natural", name COLLATE NOCASE);');
+            expect(logs).toContain('   select id, file, name, score from DATA order by coalesce("file:natural", \'\') = \'\' DESC, "file:natural" DESC, name COLLATE NOCASE;');
+            expect(readAllText('./output/files/unordered-collation.sorted.csv')).toBe(`id,file,name,score
+4,"","Émile",7
+1,file10.txt,"émile",12
+2,file2.txt,Zoe,""
+5,file02.txt,"zoé",""
+6,file1.txt,Adam,-1
+7,File10.txt,"",5
+3,File1.txt,adam,3
+`);
+        });
+        test('should not write the sort keys in the duplicates and the rows', async () => {
+            await sort({
+                source: './tests/unordered-collation.csv',
+                destination: './output/files/unordered-collation.sorted.csv',
+                orderBy: [{ name: 'file', collation: 'natural' }],
+                distinct: {
+                    uniqueBy: ['score'],
+                    duplicates: './output/files/unordered-collation.duplicates.csv',
+                },
+                sqlite: {
+                    filename: './output/files/test.sqlite',
+                },
+            });
+            expect(readAllText('./output/files/unordered-collation.duplicates.csv')).toBe('id,file,name,score\n5,file02.txt,"zoé",""\n');
+            const rows: Row[] = [];
+            for await (const row of sortedRows({
+                source: './tests/unordered-collation.csv',
+                orderBy: [{ name: 'name', collation: 'locale' }],
+                limit: 2,
+            })) {
+                rows.push(row);
+            }
+            expect(rows).toEqual([
+                { id: '7', file: 'File10.txt', name: '', score: '5' },
+                { id: '6', file: 'file1.txt', name: 'Adam', score: '-1' },
+            ]);
+        });
+        test('should sort an input stream with a schema', async () => {
+            const chunks: string[] = [];
+            const output = new Writable({
+                write(chunk, _encoding, callback) {
+                    chunks.push(chunk.toString());
+                    callback();
+                },
+            });
+            await sortStream({
+                input: fs.createReadStream('./tests/unordered-collation.csv'),
+                output,
+                schema: ['id', 'file'],
+                select: ['file'],
+                orderBy: [{ name: 'file', collation: 'natural', sortDirection: 'DESC' }],
+                limit: 2,
+                sqlite: {
+                    filename: './output/files/test.sqlite',
+                },
+            });
+            expect(chunks.join('')).toBe('file\nfile10.txt\nfile02.txt\n');
+        });
+        test('should require a schema for the sort keys of an input stream', async () => {
+            await expect(async () => {
+                await sortStream({
+                    input: fs.createReadStream('./tests/unordered-collation.csv'),
+                    output: new Writable(),
+                    orderBy: [{ name: 'file', collation: 'natural' }],
+                });
+            }).rejects.toThrow('The natural and locale collations require a schema when sorting an input stream!');
+        });
+    });
+    describe('computed columns', () => {
+        test('should rename, compute, sort and filter the columns', async () => {
+            const logs: string[] = [];
+            await sort({
+                source: './tests/unordered-code-version.csv',
+                destination: './output/files/unordered-code-version.sorted.csv',
+                schema: ['code', { name: 'version', type: 'integer' }, 'name', 'category', { name: 'price', type: 'real' }],
+                select: [
+                    { name: 'code', as: 'Product Code' },
+                    { expression: `name || ' v' || version`, as: 'label' },
+                    { expression: 'price * version', as: 'Total' },
+                ],
+                orderBy: [{ name: 'total', sortDirection: 'DESC' }, 'code'],
+                where: { column: 'TOTAL', op: '<', value: 10 },
+                limit: 4,
+                logger: msg => logs.push(msg),
+            });
+            const output = readAllText('./output/files/unordered-code-version.sorted.csv');
+            expect(output).toBe(`"Product Code",label,Total
+ghi,"beef v2",8.0
+ghi,"beef v1",3.0
+def,"pear v3",0.99
+abc,"apple v3",0.66
+`);
+            expect(logs).toContain('   create index DATA_IDX on DATA ((price * version), code);');
+            expect(logs).toContain(`   select code as "Product Code", name || ' v' || version as label, price * version as Total from DATA where (price * version) < 10 order by (price * version) DESC, code limit 4;`);
+        });
+        test('should rename the formatted columns', async () => {
+            await sort({
+                source: './tests/unordered-types.csv',
+                destination: './output/files/unordered-types.sorted.csv',
+                schema: ['id', { name: 'birthday', type: 'date', format: 'DD/MM/YYYY', outputFormat: 'YYYY' }, 'active', 'amount', 'updated'],
+                select: ['id', { name: 'birthday', as: 'year' }],
+                orderBy: ['birthday'],
+                where: `birthday >= '1990'`,
+            });
+            const output = readAllText('./output/files/unordered-types.sorted.csv');
+            expect(output).toBe(`id,year
+1,1990
+5,2000
+2,2001
+4,unknown
+`);
+        });
+        test('should validate the selected columns', async () => {
+            const options = (select: SortOptions['select']): SortOptions => ({
+                source: './tests/unordered-id.csv',
+                destination: './output/files/unordered-id.sorted.csv',
+                select,
+                orderBy: ['id'],
+            });
+            await expect(sort(options([{ as: 'id' }]))).rejects.toThrow('A selected column must have either a name or an expression!');
+            await expect(sort(options([{ name: 'id', expression: 'id + 1' }]))).rejects.toThrow('A selected column must have either a name or an expression!');
+            await expect(sort(options([{ expression: 'id + 1' }]))).rejects.toThrow(`The computed column 'id + 1' must have an alias!`);
+        });
+    });
+    describe('groupBy and aggregates', () => {
+        const schema: SortOptions['schema'] = ['code', { name: 'version', type: 'integer' }, 'name', 'category', { name: 'price', type: 'real' }];
+        test('should aggregate, filter and sort the groups', async () => {
+            const logs: string[] = [];
+            await sort({
+                source: './tests/unordered-code-version.csv',
+                destination: './output/files/unordered-code-version.sorted.csv',
+                schema,
+                groupBy: ['category', 'code'],
+                aggregates: [
+                    { function: 'count' },
+                    { function: 'sum', column: 'price', as: 'Total Price' },
+                    { function: 'max', column: 'version' },
+                    { function: 'count distinct', column: 'name' },
+                ],
+                where: `version > 1`,
+                having: { column: 'total price', op: '>', value: 0.5 },
+                orderBy: [{ name: 'Total Price', sortDirection: 'DESC' }],
+                logger: msg => logs.push(msg),
+            });
+            expect(readAllText('./output/files/unordered-code-version.sorted.csv')).toBe(`category,code,count,"Total Price",max_version,count_distinct_name
+meat,ghi,2,9.0,3,1
+fruit,def,2,0.63,3,1
+`);
+            expect(logs).toContain('   create index DATA_IDX on DATA (category, code);');
+            expect(logs).toContain(`   select category, code, count(*) as count, sum(nullif(price, '')) as "Total Price", max(nullif(version, '')) as max_version, count(distinct nullif(name, '')) as count_distinct_name from DATA where version > 1 group by category, code having (sum(nullif(price, ''))) > 0.5 order by sum(nullif(price, '')) DESC;`);
+        });
+        test('should format the groups and the min and max values', async () => {
+            await sort({
+                source: './tests/unordered-types.csv',
+                destination: './output/files/unordered-types.sorted.csv',
+                schema: [
+                    'id',
+                    { name: 'birthday', type: 'date', format: 'DD/MM/YYYY', outputFormat: 'D.M.YYYY' },
+                    { name: 'active', type: 'boolean', format: 'Y/N' },
+                    { name: 'amount', type: 'real', format: '# ##0,00' },
+                    'updated',
+                ],
+                groupBy: ['active'],
+                aggregates: [
+                    { function: 'min', column: 'birthday' },
+                    { function: 'max', column: 'birthday' },
+                    { function: 'avg', column: 'amount' },
+                ],
+                orderBy: ['active'],
+            });
+            expect(readAllText('./output/files/unordered-types.sorted.csv')).toBe(`active,min_birthday,max_birthday,avg_amount
+N,29.2.2000,3.1.2001,500006.0
+Y,15.7.1985,25.12.1990,410.416666666667
+?,unknown,unknown,0.0
+`);
+        });
+        test('should aggregate all the rows without groupBy', async () => {
+            const rows: Row[] = [];
+            for await (const row of sortedRows({
+                source: './tests/unordered-code-version.csv',
+                schema,
+                aggregates: [{ function: 'count', as: 'rows' }, { function: 'min', column: 'version' }, { function: 'max', column: 'name' }],
+                having: 'count(*) > 1',
+                orderBy: ['rows'],
+            })) {
+                rows.push(row);
+            }
+            expect(rows).toEqual([{ rows: 9, min_version: 1, max_name: 'pear' }]);
+        });
+        test('should validate the group options', async () => {
+            const options = (options: Partial<SortOptions>): SortOptions => ({
+                source: './tests/unordered-code-version.csv',
+                destination: './output/files/unordered-code-version.sorted.csv',
+                orderBy: ['code'],
+                ...options,
+            });
+            await expect(sort(options({ groupBy: ['code'], select: ['code'] }))).rejects.toThrow('The select option cannot be used with the groupBy and aggregates options!');
+            await expect(sort(options({ having: 'count(*) > 1' }))).rejects.toThrow('You must provide the groupBy or aggregates option when using a having filter!');
+            await expect(sort(options({ groupBy: ['code'], aggregates: [{ function: 'sum' }] }))).rejects.toThrow('The sum aggregate requires a column!');
+            await expect(sort(options({ groupBy: ['cod'] }))).rejects.toThrow(new ValidationError(`Column 'cod' of the groupBy is not in the header of './tests/unordered-code-version.csv': (code, version, name, category, price)!`));
+            await expect(sort(options({ groupBy: ['code'], aggregates: [{ function: 'sum', column: 'prices' }], schema: ['code', 'version', 'name', 'category', 'price'] })))
+                .rejects.toThrow(new ValidationError(`Column 'prices' of the sum aggregate is not in the schema: (code, version, name, category, price)!`));
+            await expect(sort(options({ groupBy: ['code'], engine: 'merge' }))).rejects.toThrow('The groupBy and aggregates options are not supported by the merge engine!');
+        });
+    });
+    describe('join', () => {
+        test('should join the rows with the same keys', async () => {
+            const logs: string[] = [];
+            await sort({
+                source: './tests/unordered-id.csv',
+                destination: './output/files/unordered-id.sorted.csv',
+                join: { source: './tests/lookup-teams.csv', keys: ['id'] },
+                where: { column: 'team', op: '<>', value: 'red' },
+                orderBy: ['team', { name: 'id', sortDirection: 'DESC' }],
+                logger: msg => logs.push(msg),
+            });
+            expect(readAllText('./output/files/unordered-id.sorted.csv')).toBe(`id,name,age,team
+2,sarah,1,blue
+7,paul,33,green
+`);
+            expect(logs).toContain('   .import --skip 1 "./tests/lookup-teams.csv" LOOKUP');
+            expect(logs).toContain('   create index LOOKUP_IDX on LOOKUP (id);');
+            expect(logs).toContain(`   select * from DATA join LOOKUP using (id) where team <> 'red' order by LOOKUP.team, DATA.id DESC;`);
+        });
+        test('should keep the rows without matching row with a left join', async () => {
+            const logs: string[] = [];
+            await sort({
+                source: './tests/unordered-id.csv',
+                destination: './output/files/unordered-id.sorted.csv',
+                join: { source: './tests/lookup-teams.csv', keys: ['age'], lookupKeys: ['id'], type: 'left', prefix: 'team_' },
+                select: ['id', 'age', 'team_team'],
+                orderBy: ['age', { name: 'team_team', nulls: 'last' }],
+                logger: msg => logs.push(msg),
+            });
+            expect(readAllText('./output/files/unordered-id.sorted.csv')).toBe(`id,age,team_team
+2,1,red
+1,12,
+3,2,blue
+6,3,
+7,33,
+5,4,
+`);
+            expect(logs).toContain('   create index DATA_IDX on DATA (age);');
+            expect(logs).toContain(`   select id, age, team_team from DATA left join LOOKUP on DATA.age = LOOKUP.team_id order by DATA.age, coalesce(LOOKUP.team_team, '') = '', LOOKUP.team_team;`);
+        });
+        test('should keep the rows without matching row with an anti join', async () => {
+            const logs: string[] = [];
+            await sort({
+                source: './tests/unordered-id.csv',
+                destination: './output/files/unordered-id.sorted.csv',
+                schema: [{ name: 'id', type: 'integer' }, 'name', { name: 'age', type: 'integer' }],
+                join: { source: './tests/lookup-teams.csv', keys: ['id'], type: 'anti' },
+                where: 'age > 2',
+                orderBy: ['id'],
+                logger: msg => logs.push(msg),
+            });
+            expect(readAllText('./output/files/unordered-id.sorted.csv')).toBe(`id,name,age
+5,sally,4
+6,stan,3
+`);
+            expect(logs).toContain(`   select * from DATA where not exists (select 1 from LOOKUP where DATA.id = LOOKUP.id) and (age > 2) order by DATA.id;`);
+        });
+        test('should append the columns of the join source to the formatted columns', async () => {
+            await sort({
+                source: './tests/unordered-types.csv',
+                destination: './output/files/unordered-types.sorted.csv',
+                schema: ['id', { name: 'birthday', type: 'date', format: 'DD/MM/YYYY' }, 'active', 'amount', 'updated'],
+                join: { source: { filename: './tests/lookup-labels.tsv', delimiter: '\t' }, keys: ['id'], lookupKeys: ['code'], schema: [{ name: 'code', type: 'integer' }, 'label'] },
+                orderBy: ['label'],
+            });
+            expect(readAllText('./output/files/unordered-types.sorted.csv')).toBe(`id,birthday,active,amount,updated,code,label
+1,25/12/1990,Y,"1 234,50","01/02/2024 10:05",1,one
+3,15/07/1985,y,"-3,25","01/02/2024 08:59:30",3,three
+`);
+        });
+        test('should validate the join options', async () => {
+            const options = (join: Partial<JoinOptions>): SortOptions => ({
+                source: './tests/unordered-id.csv',
+                destination: './output/files/unordered-id.sorted.csv',
+                join: { source: './tests/lookup-teams.csv', keys: ['id'], ...join },
+                orderBy: ['id'],
+            });
+            await expect(sort(options({ source: './tests/should-not-exist.csv' }))).rejects.toThrow(`File './tests/should-not-exist.csv' does not exist!`);
+            await expect(sort(options({ keys: [] }))).rejects.toThrow('You must provide the keys of the join!');
+            await expect(sort(options({ lookupKeys: ['id', 'team'] }))).rejects.toThrow('The join must have as many lookupKeys as keys!');
+            await expect(sort(options({ schema: ['id', { name: 'team', type: 'boolean' }] }))).rejects.toThrow('The schema of the join source does not support the formats and the boolean type!');
+            await expect(sort(options({ lookupKeys: ['code'] }))).rejects.toThrow(`The lookup key 'code' is not in the header of './tests/lookup-teams.csv': (id, team)!`);
+            await expect(sort(options({ schema: ['key', 'team'] }))).rejects.toThrow(`The lookup key 'id' is not in the schema of the join: (key, team)!`);
+            await expect(sort(options({ keys: ['age'], lookupKeys: ['id'] }))).rejects.toThrow(`The column 'id' of the join source is also a column of the source, use the prefix option for renaming the columns of the join source!`);
+        });
+    });
+    describe('isSorted', () => {
+        test('should report the first line that is not in order', async () => {
+            const logs: string[] = [];
+            const result = await isSorted({ source: './tests/unordered-id.csv', orderBy: ['id'], logger: msg => logs.push(msg) });
+            expect(result).toEqual({ sorted: false, filename: './tests/unordered-id.csv', line: 4 });
+            expect(logs).toContain('Line 4 of ./tests/unordered-id.csv is not in order');
+        });
+        test('should accept the files sorted by the sort function', async () => {
+            const schema: SchemaColumn[] = [{ name: 'id', type: 'integer' }, { name: 'value', type: 'number' }, { name: 'label' }];
+            const orderBy: SortOptions['orderBy'] = [{ name: 'value', sortDirection: 'DESC' }, 'label'];
+            await sort({
+                source: './tests/unordered-numbers.csv',
+                destination: './output/files/unordered-numbers.sorted.csv',
+                schema,
+                orderBy,
+            });
+            expect(await isSorted({ source: './output/files/unordered-numbers.sorted.csv', schema, orderBy })).toEqual({ sorted: true });
+            // the numbers are compared as texts without schema
+            expect(await isSorted({ source: './output/files/unordered-numbers.sorted.csv', orderBy })).toEqual({
+                sorted: false,
+                filename: './output/files/unordered-numbers.sorted.csv',
+                line: 5,
+            });
+        });
+        test('should accept the rows with the same keys in any order', async () => {
+            const orderBy: SortOptions['orderBy'] = [{ name: 'code', sortDirection: 'DESC' }, { name: 'category', collation: 'natural' }];
+            await sort({
+                source: './tests/unordered-code-version.csv',
+                destination: './output/files/unordered-code-version.sorted.csv',
+                orderBy,
+            });
+            expect(await isSorted({ source: './output/files/unordered-code-version.sorted.csv', orderBy })).toEqual({ sorted: true });
+            expect(await isSorted({ source: './output/files/unordered-code-version.sorted.csv', orderBy: ['code'] })).toEqual({
+                sorted: false,
+                filename: './output/files/unordered-code-version.sorted.csv',
+                line: 5,
+            });
+        });
+        test('should check the parts of a file as one dataset', async () => {
+            expect(await isSorted({ source: './tests/parts/part-*.csv', orderBy: [{ name: 'id', sortDirection: 'DESC' }] })).toEqual({
+                sorted: false,
+                filename: 'tests/parts/part-0002.csv',
+                line: 2,
+            });
+        });
+        test('should validate the options', async () => {
+            await expect(isSorted({ source: './tests/should-not-exist.csv', orderBy: ['id'] })).rejects.toThrow(`File './tests/should-not-exist.csv' does not exist!`);
+            await expect(isSorted({ source: './tests/unordered-id.csv', orderBy: [] })).rejects.toThrow('You must provide an orderBy option to check the order of the file!');
+        });
+    });
+    describe('skipIfSorted', () => {
+        test('should copy a sorted source', async () => {
+            const logs: string[] = [];
+            await sort({
+                source: './tests/unordered-id.csv',
+                destination: './output/files/unordered-id.sorted.csv',
+                orderBy: ['id'],
+            });
+            fs.renameSync('./output/files/unordered-id.sorted.csv', './output/files/sorted-id.csv');
+            const result = await sort({
+                source: './output/files/sorted-id.csv',
+                destination: './output/files/unordered-id.sorted.csv',
+                orderBy: ['id'],
+                skipIfSorted: true,
+                logger: msg => logs.push(msg),
+            });
+            expect(result).toEqual({ skipped: true });
+            expect(readAllText('./output/files/unordered-id.sorted.csv')).toBe(readAllText('./output/files/sorted-id.csv'));
+            expect(logs).toContain('Copy sorted source ./output/files/sorted-id.csv to ./output/files/unordered-id.sorted.csv');
+            expect(logs.some(log => log.startsWith('Execute script'))).toBe(false);
+        });
+        test('should sort a source that is not in order', async () => {
+            const result = await sort({
+                source: './tests/unordered-types.csv',
+                destination: './output/files/unordered-types.sorted.csv',
+                schema: 'infer',
+                orderBy: [{ name: 'id', sortDirection: 'DESC' }],
+                skipIfSorted: true,
+            });
+            expect(result.skipped).toBeUndefined();
+            expect(readAllText('./output/files/unordered-types.sorted.csv').split('\n')[1]).toMatch(/^6,/);
+        });
+        test('should validate the options', async () => {
+            const options = (options: Partial<SortOptions>): SortOptions => ({
+                source: './tests/unordered-id.csv',
+                destination: './output/files/unordered-id.sorted.csv',
+                orderBy: ['id'],
+                skipIfSorted: true,
+                ...options,
+            });
+            await expect(sort(options({ source: './tests/parts/part-*.csv' }))).rejects.toThrow('The skipIfSorted option requires a single source file and a single destination file!');
+            await expect(sortStream({ input: Readable.from([]), output: new Writable(), schema: ['id'], orderBy: ['id'], skipIfSorted: true })).rejects.toThrow('The skipIfSorted option requires a single source file and a single destination file!');
+            await expect(sort(options({ select: ['id'] }))).rejects.toThrow('The skipIfSorted option cannot be used with the options changing the rows or the columns!');
+            await expect(sort(options({ limit: 2 }))).rejects.toThrow('The skipIfSorted option cannot be used with the options changing the rows or the columns!');
+            await expect(sort(options({ destination: { filename: './output/files/unordered-id.sorted.csv', delimiter: ';' } }))).rejects.toThrow('The skipIfSorted option cannot be used with the options changing the rows or the columns!');
+            await expect(sort(options({ schema: ['id', 'name', { name: 'age', type: 'boolean', outputFormat: 'yes/no' }] }))).rejects.toThrow('The skipIfSorted option cannot be used with the options changing the rows or the columns!');
+        });
+    });
+    describe('compression', () => {
+        const sorted = `id,name,age
+1,john,12
+2,sarah,1
+3,mary,2
+5,sally,4
+6,stan,3
+7,paul,33
+`;
+        beforeAll(() => {
+            fs.rmSync('./output/compressed', { recursive: true, force: true });
+            fs.mkdirSync('./output/compressed');
+            const text = readAllText('./tests/unordered-id.csv');
+            fs.writeFileSync('./output/compressed/unordered-id.csv.gz', zlib.gzipSync(text));
+            fs.writeFileSync('./output/compressed/unordered-id.csv.br', zlib.brotliCompressSync(text));
+            fs.writeFileSync('./output/compressed/unordered-id.gzip', zlib.gzipSync(text));
+        });
+        test('should sort a compressed source into a compressed destination', async () => {
+            const logs: string[] = [];
+            const result = await sort({
+                source: './output/compressed/unordered-id.csv.gz',
+                destination: './output/compressed/unordered-id.sorted.csv.br',
+                schema: 'infer',
+                orderBy: ['id'],
+                logger: msg => logs.push(msg),
+            });
+            expect(zlib.brotliDecompressSync(fs.readFileSync('./output/compressed/unordered-id.sorted.csv.br')).toString()).toBe(sorted);
+            expect(result.schema).toEqual([{ name: 'id', type: 'number' }, { name: 'name', type: 'string' }, { name: 'age', type: 'number' }]);
+            expect(logs).toContain('Compress the destination ./output/compressed/unordered-id.sorted.csv.br with brotli');
+            expect(logs).toContain('   .import --skip 1 "|cat <&3" DATA');
+            expect(logs).toContain('   .output "|cat >&4"');
+        });
+        test('should use the compression of the file options', async () => {
+            for (const engine of ['sqlite', 'merge'] as const) {
+                await sort({
+                    source: { filename: './output/compressed/unordered-id.gzip', compression: 'gzip' },
+                    destination: { filename: './output/compressed/unordered-id.sorted.gzip', compression: 'gzip' },
+                    orderBy: ['id'],
+                    engine,
+                });
+                expect(zlib.gunzipSync(fs.readFileSync('./output/compressed/unordered-id.sorted.gzip')).toString()).toBe(sorted);
+            }
+        });
+        test('should sort the compressed parts of a file', async () => {
+            await sort({
+                source: ['./output/compressed/unordered-id.csv.gz', './output/compressed/unordered-id.csv.br', './tests/unordered-id.csv'],
+                destination: './output/compressed/unordered-id.sorted.csv',
+                orderBy: [{ name: 'id', sortDirection: 'DESC' }],
+                limit: 4,
+            });
+            expect(readAllText('./output/compressed/unordered-id.sorted.csv')).toBe(`id,name,age
+7,paul,33
+7,paul,33
+7,paul,33
+6,stan,3
+`);
+        });
+        test('should check and copy a compressed source', async () => {
+            fs.writeFileSync('./output/compressed/sorted-id.csv.gz', zlib.gzipSync(sorted));
+            expect(await isSorted({ source: './output/compressed/unordered-id.csv.br', orderBy: ['id'] })).toMatchObject({ sorted: false, line: 4 });
+            expect(await isSorted({ source: './output/compressed/sorted-id.csv.gz', orderBy: ['id'] })).toEqual({ sorted: true });
+            const result = await sort({
+                source: './output/compressed/sorted-id.csv.gz',
+                destination: './output/compressed/sorted-id.csv',
+                orderBy: ['id'],
+                skipIfSorted: true,
+            });
+            expect(result).toEqual({ skipped: true });
+            expect(readAllText('./output/compressed/sorted-id.csv')).toBe(sorted);
+        });
+        test('should compress the partitions with gzip', async () => {
+            const result = await sort({
+                source: './tests/unordered-id.csv',
+                destination: './output/compressed/part-{index}.csv.gz',
+                orderBy: ['id'],
+                maxRowsPerFile: 4,
+            });
+            expect(result.files).toEqual(['./output/compressed/part-1.csv.gz', './output/compressed/part-2.csv.gz']);
+            expect(zlib.gunzipSync(fs.readFileSync('./output/compressed/part-2.csv.gz')).toString()).toBe('id,name,age\n6,stan,3\n7,paul,33\n');
+        });
+        test('should delete the compressed destination of an aborted sort', async () => {
+            const controller = new AbortController();
+            const lines = ['id,name'];
+            for (let i = 20000; i > 0; i--) {
+                lines.push(`${i},name ${i}`);
+            }
+            fs.writeFileSync('./output/compressed/abort.csv', lines.join('\n') + '\n');
+            const logs: string[] = [];
+            await expect(sort({
+                source: './output/compressed/abort.csv',
+                destination: './output/compressed/abort.csv.gz',
+                orderBy: ['id'],
+                engine: 'merge',
+                onProgress: event => {
+                    if (event.phase === 'export' && event.bytes) {
+                        controller.abort();
+                    }
+                },
+                signal: controller.signal,
+                logger: msg => logs.push(msg),
+            })).rejects.toThrow(AbortError);
+            expect(logs).toContain('Delete partial output ./output/compressed/abort.csv.gz');
+            expect(fs.existsSync('./output/compressed/abort.csv.gz')).toBe(false);
+        });
+        test('should validate the compressed files', async () => {
+            const options = (options: Partial<SortOptions>): SortOptions => ({
+                source: './tests/unordered-id.csv',
+                destination: './output/compressed/out.csv',
+                orderBy: ['id'],
+                ...options,
+            });
+            await expect(sort(options({ join: { source: './output/compressed/unordered-id.csv.gz', keys: ['id'] } }))).rejects.toThrow('The join source cannot be compressed!');
+            await expect(sort(options({ distinct: { uniqueBy: ['id'], duplicates: './output/compressed/duplicates.csv.gz' } }))).rejects.toThrow('The duplicates file cannot be compressed!');
+            await expect(sort(options({ destination: './output/compressed/out-{index}.csv.br', maxRowsPerFile: 2 }))).rejects.toThrow('The partitions cannot be compressed with brotli!');
+            await expect(sort(options({ source: { filename: './tests/unordered-id.csv', compression: 'gzip' } }))).rejects.toThrow('incorrect header check');
+        });
+    });
+    describe('output formats', () => {
+        const schema: SchemaColumn[] = [{ name: 'id', type: 'integer' }, { name: 'value', type: 'number' }, { name: 'label' }];
+        test('should write the rows as JSON lines', async () => {
+            for (const engine of ['sqlite', 'merge'] as const) {
+                const logs: string[] = [];
+                await sort({
+                    source: './tests/unordered-numbers.csv',
+                    destination: { filename: './output/files/unordered-numbers.sorted.ndjson', format: 'ndjson', emptyAsNull: true },
+                    schema,
+                    select: ['id', { name: 'value', as: 'amount' }, 'label'],
+                    orderBy: [{ name: 'id', sortDirection: 'DESC' }],
+                    offset: 8,
+                    limit: 7,
+                    engine,
+                    logger: msg => logs.push(msg),
+                });
+                expect(readAllText('./output/files/unordered-numbers.sorted.ndjson')).toBe(`{"id":7,"amount":null,"label":"g"}
+{"id":6,"amount":"abc","label":"f"}
+{"id":5,"amount":-3,"label":"e"}
+{"id":4,"amount":1.5e+20,"label":"d"}
+{"id":3,"amount":1000,"label":"c"}
+{"id":2,"amount":1,"label":"b"}
+{"id":1,"amount":0.2,"label":"a"}
+`);
+                expect(logs).toContain('Convert the destination ./output/files/unordered-numbers.sorted.ndjson to ndjson');
+            }
+        });
+        test('should write the groups as a compressed JSON array', async () => {
+            await sort({
+                source: './tests/unordered-code-version.csv',
+                destination: { filename: './output/files/unordered-code-version.sorted.json.gz', format: 'json' },
+                schema: ['code', { name: 'version', type: 'integer' }, 'name', 'category', { name: 'price', type: 'real' }],
+                groupBy: ['category'],
+                aggregates: [{ function: 'count' }, { function: 'sum', column: 'price' }, { function: 'max', column: 'name' }],
+                orderBy: ['category'],
+            });
+            const text = zlib.gunzipSync(fs.readFileSync('./output/files/unordered-code-version.sorted.json.gz')).toString();
+            expect(text).toBe(`[
+{"category":"fruit","count":6,"sum_price":1.54,"max_name":"pear"},
+{"category":"meat","count":3,"sum_price":12.0,"max_name":"beef"}
+]
+`);
+            expect(JSON.parse(text)[1]).toEqual({ category: 'meat', count: 6 / 2, sum_price: 12, max_name: 'beef' });
+        });
+        test('should write an empty JSON array', async () => {
+            await sort({
+                source: './tests/unordered-id.csv',
+                destination: { filename: './output/files/unordered-id.sorted.json', format: 'json' },
+                where: "name = 'nobody'",
+                orderBy: ['id'],
+            });
+            expect(readAllText('./output/files/unordered-id.sorted.json')).toBe('[]\n');
+        });
+        test('should write the numeric columns of the join source as numbers', async () => {
+            await sort({
+                source: './tests/unordered-id.csv',
+                destination: { filename: './output/files/unordered-id.sorted.ndjson', format: 'ndjson' },
+                schema: ['id', 'name', { name: 'age', type: 'integer' }],
+                join: { source: './tests/lookup-teams.csv', schema: [{ name: 'id', type: 'integer' }, 'team'], keys: ['age'], lookupKeys: ['id'], prefix: 'team_' },
+                orderBy: ['id'],
+            });
+            expect(readAllText('./output/files/unordered-id.sorted.ndjson')).toBe(`{"id":"2","name":"sarah","age":1,"team_id":1,"team_team":"red"}
+{"id":"3","name":"mary","age":2,"team_id":2,"team_team":"blue"}
+`);
+        });
+        test('should write the tsv format with a tab delimiter', async () => {
+            await sort({
+                source: { filename: './tests/unordered-id.tsv', format: 'tsv' },
+                destination: { filename: './output/files/unordered-id.sorted.tsv', format: 'tsv' },
+                orderBy: ['id'],
+                limit: 2,
+            });
+            expect(readAllText('./output/files/unordered-id.sorted.tsv')).toBe('id\tname\tage\n1\tjohn\t12\n2\tsarah\t1\n');
+        });
+        test('should validate the formats', async () => {
+            const options = (options: Partial<SortOptions>): SortOptions => ({
+                source: './tests/unordered-id.csv',
+                destination: { filename: './output/files/unordered-id.sorted.json', format: 'json' },
+                orderBy: ['id'],
+                ...options,
+            });
+            await expect(sort(options({ source: { filename: './tests/unordered-id.csv', format: 'json' } }))).rejects.toThrow('The json format is only supported by the destination!');
+            await expect(sort(options({ distinct: { uniqueBy: ['id'], duplicates: { filename: './output/files/duplicates.json', format: 'json' } } }))).rejects.toThrow('The json format is only supported by the destination!');
+            await expect(sort(options({ destination: { filename: './output/files/out-{index}.json', format: 'json' }, maxRowsPerFile: 2 }))).rejects.toThrow('The partitionBy and maxRowsPerFile options require a csv or tsv destination!');
+            await expect(sort(options({ skipIfSorted: true }))).rejects.toThrow('The skipIfSorted option cannot be used with the options changing the rows or the columns!');
+        });
+    });
+    describe('ndjson sources', () => {
+        test('should sort the flattened objects', async () => {
+            const logs: string[] = [];
+            await sort({
+                source: { filename: './tests/unordered-events.ndjson', format: 'ndjson' },
+                destination: './output/files/unordered-events.sorted.csv',
+                select: ['id', 'user.name', 'amount'],
+                where: { column: 'type', op: '<>', value: 'view' },
+                orderBy: ['user.name', { name: 'id', sortDirection: 'DESC' }],
+                logger: msg => logs.push(msg),
+            });
+            expect(readAllText('./output/files/unordered-events.sorted.csv')).toBe(`id,user.name,amount
+10,Alice,3
+3,Bob,12.5
+2,"Carl, Jr.",100
+`);
+            expect(logs).toContain('Normalize the values of the sources');
+            expect(logs).toContain(`   select id, "user.name", amount from DATA where type <> 'view' order by "user.name", id DESC;`);
+        });
+        test('should pick the fields of the schema', async () => {
+            fs.writeFileSync('./output/files/unordered-events.ndjson.gz', zlib.gzipSync(fs.readFileSync('./tests/unordered-events.ndjson')));
+            for (const engine of ['sqlite', 'merge'] as const) {
+                for (const filename of ['./tests/unordered-events.ndjson', './output/files/unordered-events.ndjson.gz']) {
+                    await sort({
+                        source: { filename, format: 'ndjson' },
+                        destination: './output/files/unordered-events.sorted.csv',
+                        schema: [{ name: 'id', type: 'integer' }, 'user.address.city', { name: 'amount', type: 'number' }],
+                        orderBy: ['id'],
+                        engine,
+                    });
+                    expect(readAllText('./output/files/unordered-events.sorted.csv')).toBe(`id,user.address.city,amount
+1,"",""
+2,"",100
+3,"",12.5
+5,"",""
+10,Paris,3
+`);
+                }
+            }
+        });
+        test('should infer the schema of the fields', async () => {
+            const result = await sort({
+                source: [{ filename: './tests/unordered-events.ndjson', format: 'ndjson' }, { filename: './tests/unordered-events.ndjson', format: 'ndjson' }],
+                destination: { filename: './output/files/unordered-events.sorted.ndjson', format: 'ndjson' },
+                schema: 'infer',
+                select: ['id', 'paid'],
+                where: `type = 'purchase'`,
+                orderBy: ['id'],
+            });
+            expect(result.schema?.map(col => `${col.name} ${col.type}`)).toEqual([
+                'id number', 'type string', 'user.id string', 'user.name string', 'tags string', 'amount number', 'user.address.city string', 'paid string',
+            ]);
+            expect(readAllText('./output/files/unordered-events.sorted.ndjson')).toBe(`{"id":2,"paid":"true"}
+{"id":2,"paid":"true"}
+`);
+        });
+        test('should report the invalid objects', async () => {
+            fs.writeFileSync('./output/files/invalid-events.ndjson', '{"id":1}\n{"id":2\n');
+            await expect(sort({
+                source: { filename: './output/files/invalid-events.ndjson', format: 'ndjson' },
+                destination: './output/files/invalid-events.sorted.csv',
+                orderBy: ['id'],
+            })).rejects.toThrow(`Line 2 of './output/files/invalid-events.ndjson' is not a JSON object!`);
+            await expect(sort({
+                source: { filename: './output/files/invalid-events.ndjson', format: 'ndjson' },
+                destination: './output/files/invalid-events.sorted.csv',
+                schema: ['id'],
+                orderBy: ['id'],
+            })).rejects.toThrow(`Line 2 of './output/files/invalid-events.ndjson' is not a JSON object!`);
+        });
+        test('should validate the ndjson sources', async () => {
+            const options: SortOptions = {
+                source: { filename: './tests/unordered-events.ndjson', format: 'ndjson' },
+                destination: './output/files/unordered-events.sorted.csv',
+                orderBy: ['id'],
+            };
+            await expect(sort({ ...options, join: { source: { filename: './tests/unordered-events.ndjson', format: 'ndjson' }, keys: ['id'] } })).rejects.toThrow('The ndjson format is only supported by the sources and the destination!');
+            await expect(sort({ ...options, skipIfSorted: true })).rejects.toThrow('The skipIfSorted option cannot be used with the options changing the rows or the columns!');
+        });
+    });
+    describe('headers', () => {
+        test('should name the columns of a file without header by the schema', async () => {
+            for (const engine of ['sqlite', 'merge'] as const) {
+                const logs: string[] = [];
+                await sort({
+                    source: { filename: './tests/unordered-id-no-header.csv', hasHeader: false },
+                    destination: './output/files/unordered-id.sorted.csv',
+                    schema: ['id', 'name', { name: 'age', type: 'integer' }],
+                    orderBy: ['age'],
+                    engine,
+                    logger: msg => logs.push(msg),
+                });
+                expect(readAllText('./output/files/unordered-id.sorted.csv')).toBe(`id,name,age
+2,sarah,1
+3,mary,2
+6,stan,3
+5,sally,4
+1,john,12
+7,paul,33
+`);
+                if (engine === 'sqlite') {
+                    expect(logs).toContain('   .import "./tests/unordered-id-no-header.csv" DATA');
+                }
+            }
+        });
+        test('should generate the column names and skip the header of the destination', async () => {
+            for (const engine of ['sqlite', 'merge'] as const) {
+                const logs: string[] = [];
+                await sort({
+                    source: [
+                        { filename: './tests/unordered-id-no-header.csv', hasHeader: false },
+                        { filename: './tests/unordered-id-no-header.csv', hasHeader: false },
+                    ],
+                    destination: { filename: './output/files/unordered-id.sorted.csv', writeHeader: false },
+                    select: ['col2', 'col1'],
+                    orderBy: [{ name: 'col1', sortDirection: 'DESC' }],
+                    limit: 4,
+                    engine,
+                    logger: msg => logs.push(msg),
+                });
+                expect(readAllText('./output/files/unordered-id.sorted.csv')).toBe(`paul,7
+paul,7
+stan,6
+stan,6
+`);
+                if (engine === 'sqlite') {
+                    expect(logs).toContain('     col1 TEXT,');
+                    expect(logs).toContain('   .headers off');
+                }
+            }
+        });
+        test('should join a lookup file without header', async () => {
+            fs.writeFileSync('./output/files/lookup-no-header.csv', '1,red\n2,blue\n');
+            const logs: string[] = [];
+            await sort({
+                source: './tests/unordered-id.csv',
+                destination: './output/files/unordered-id.sorted.csv',
+                join: { source: { filename: './output/files/lookup-no-header.csv', hasHeader: false }, keys: ['id'], lookupKeys: ['col1'] },
+                select: ['id', 'col2'],
+                orderBy: ['id'],
+                logger: msg => logs.push(msg),
+            });
+            expect(readAllText('./output/files/unordered-id.sorted.csv')).toBe('id,col2\n1,red\n2,blue\n');
+            expect(logs).toContain('   .import "./output/files/lookup-no-header.csv" LOOKUP');
+        });
+        test('should skip the header of the duplicates, the partitions and the compressed destination', async () => {
+            await sort({
+                source: './tests/duplicated-id.csv',
+                destination: { filename: './output/files/duplicated-id.sorted.csv.gz', writeHeader: false },
+                distinct: { uniqueBy: ['id'], duplicates: { filename: './output/files/duplicated-id.duplicates.csv', writeHeader: false } },
+                orderBy: ['id'],
+            });
+            expect(zlib.gunzipSync(fs.readFileSync('./output/files/duplicated-id.sorted.csv.gz')).toString()).toBe('1,john,1\n2,sarah,5\n3,mary,2\n');
+            expect(readAllText('./output/files/duplicated-id.duplicates.csv')).toBe('3,mary,1\n1,john,3\n1,john,2\n3,mary,3\n');
+            const result = await sort({
+                source: './tests/unordered-id.csv',
+                destination: { filename: './output/files/no-header-{index}.csv', writeHeader: false },
+                orderBy: ['id'],
+                maxRowsPerFile: 4,
+            });
+            expect(result.files).toEqual(['./output/files/no-header-1.csv', './output/files/no-header-2.csv']);
+            expect(readAllText('./output/files/no-header-2.csv')).toBe('6,stan,3\n7,paul,33\n');
+        });
+        test('should check the order of a file without header', async () => {
+            expect(await isSorted({ source: { filename: './tests/unordered-id-no-header.csv', hasHeader: false }, orderBy: ['col1'] }))
+                .toEqual({ sorted: false, filename: './tests/unordered-id-no-header.csv', line: 3 });
+            fs.writeFileSync('./output/files/sorted-no-header.csv', '1,a\n2,b\n');
+            const options: SortOptions = {
+                source: { filename: './output/files/sorted-no-header.csv', hasHeader: false },
+                destination: { filename: './output/files/sorted-no-header.copy.csv', writeHeader: false },
+                orderBy: ['col1'],
+                skipIfSorted: true,
+            };
+            expect(await sort(options)).toEqual({ skipped: true });
+            expect(readAllText('./output/files/sorted-no-header.copy.csv')).toBe('1,a\n2,b\n');
+            await expect(sort({ ...options, destination: './output/files/sorted-no-header.copy.csv' })).rejects.toThrow('The skipIfSorted option cannot be used with the options changing the rows or the columns!');
+        });
+        test('should validate the header options', async () => {
+            await expect(sort({
+                source: './tests/unordered-id.csv',
+                destination: { filename: './output/files/unordered-id.sorted.ndjson', format: 'ndjson', writeHeader: false },
+                orderBy: ['id'],
+            })).rejects.toThrow('The writeHeader option is only supported by the csv and tsv formats!');
+        });
+    });
+    describe('malformed rows', () => {
+        test('should fail on the first malformed row by default', async () => {
+            await expect(sort({
+                source: './tests/malformed-rows.csv',
+                destination: './output/files/malformed-rows.sorted.csv',
+                schema: ['id', 'name', 'age'],
+                orderBy: ['id'],
+            })).rejects.toThrow('SQLite command was killed because a column mismatch between schema and inputs was detected.');
+        });
+        test('should skip the malformed rows', async () => {
+            for (const engine of ['sqlite', 'merge'] as const) {
+                const result = await sort({
+                    source: './tests/malformed-rows.csv',
+                    destination: './output/files/malformed-rows.sorted.csv',
+                    orderBy: ['id'],
+                    onMalformedRow: 'skip',
+                    engine,
+                });
+                expect(result).toEqual({ rejectedCount: 2 });
+                expect(readAllText('./output/files/malformed-rows.sorted.csv')).toBe('id,name,age\n1,john,12\n2,sarah,1\n6,stan,3\n');
+            }
+        });
+        test('should write the rejected rows to the reject file', async () => {
+            const logs: string[] = [];
+            const result = await sort({
+                source: './tests/malformed-rows.csv',
+                destination: './output/files/malformed-rows.sorted.csv',
+                orderBy: [{ name: 'id', sortDirection: 'DESC' }],
+                onMalformedRow: 'reject',
+                rejectFile: './output/files/malformed-rows.rejected.csv',
+                maxRejects: 2,
+                logger: msg => logs.push(msg),
+            });
+            expect(result).toEqual({ rejectedCount: 2 });
+            expect(readAllText('./output/files/malformed-rows.sorted.csv')).toBe('id,name,age\n6,stan,3\n2,sarah,1\n1,john,12\n');
+            expect(readAllText('./output/files/malformed-rows.rejected.csv')).toBe(`filename,line,reason,row
+./tests/malformed-rows.csv,3,"expected 3 columns but found 4","3,mary,2,extra"
+./tests/malformed-rows.csv,5,"expected 3 columns but found 5","7,""paul, jr"",33,x,y"
+`);
+            expect(logs).toContain('Reject line 3 of ./tests/malformed-rows.csv: expected 3 columns but found 4');
+        });
+        test('should fail above the maximum number of malformed rows', async () => {
+            await expect(sort({
+                source: './tests/malformed-rows.csv',
+                destination: './output/files/malformed-rows.sorted.csv',
+                orderBy: ['id'],
+                onMalformedRow: 'reject',
+                rejectFile: './output/files/malformed-rows.rejected.csv',
+                maxRejects: 1,
+            })).rejects.toThrow(`More than 1 malformed rows, line 5 of './tests/malformed-rows.csv': expected 3 columns but found 5!`);
+            expect(readAllText('./output/files/malformed-rows.rejected.csv')).toBe(`filename,line,reason,row
+./tests/malformed-rows.csv,3,"expected 3 columns but found 4","3,mary,2,extra"
+`);
+        });
+        test('should reject the invalid lines of ndjson sources and the rows of files without header', async () => {
+            fs.writeFileSync('./output/files/malformed-events.ndjson', '{"id":2}\n{"id":\n{"id":1}\n[1]\r\n');
+            const result = await sort({
+                source: [{ filename: './output/files/malformed-events.ndjson', format: 'ndjson' }],
+                destination: './output/files/malformed-events.sorted.csv',
+                orderBy: ['id'],
+                onMalformedRow: 'reject',
+                rejectFile: './output/files/malformed-events.rejected.csv',
+            });
+            expect(result).toEqual({ rejectedCount: 2 });
+            expect(readAllText('./output/files/malformed-events.sorted.csv')).toBe('id\n1\n2\n');
+            expect(readAllText('./output/files/malformed-events.rejected.csv')).toBe(`filename,line,reason,row
+./output/files/malformed-events.ndjson,2,"not a JSON object","{""id"":"
+./output/files/malformed-events.ndjson,4,"not a JSON object",[1]
+`);
+            fs.writeFileSync('./output/files/malformed-no-header.csv', '1,a\r\n2, b ,"c"\r\n');
+            await sort({
+                source: { filename: './output/files/malformed-no-header.csv', hasHeader: false },
+                destination: './output/files/malformed-no-header.sorted.csv',
+                orderBy: ['col1'],
+                onMalformedRow: 'reject',
+                rejectFile: './output/files/malformed-no-header.rejected.csv',
+            });
+            expect(readAllText('./output/files/malformed-no-header.rejected.csv')).toBe(`filename,line,reason,row
+./output/files/malformed-no-header.csv,2,"expected 2 columns but found 3","2, b ,""c"""
+`);
+        });
+        test('should validate the malformed row options', async () => {
+            const options: SortOptions = {
+                source: './tests/malformed-rows.csv',
+                destination: './output/files/malformed-rows.sorted.csv',
+                orderBy: ['id'],
+            };
+            await expect(sort({ ...options, onMalformedRow: 'skip', rejectFile: './output/files/malformed-rows.rejected.csv' })).rejects.toThrow('The rejectFile option requires the reject policy of the onMalformedRow option!');
+            await expect(sort({ ...options, onMalformedRow: 'reject', rejectFile: './output/missing/malformed-rows.rejected.csv' })).rejects.toThrow(`Folder './output/missing' does not exist!`);
+            await expect(sort({ ...options, onMalformedRow: 'reject', rejectFile: { filename: './output/files/rejected.json', format: 'json' } })).rejects.toThrow('The json format is only supported by the destination!');
+            await expect(sort({ ...options, maxRejects: 10 })).rejects.toThrow('The maxRejects option requires the skip or reject policy of the onMalformedRow option!');
+            await expect(sort({ ...options, onMalformedRow: 'skip', maxRejects: -1 })).rejects.toThrow('The maximum number of rejected rows must be a positive integer or zero!');
+            await expect(sort({ ...options, onMalformedRow: 'skip', skipIfSorted: true })).rejects.toThrow('The skipIfSorted option cannot be used with the options changing the rows or the columns!');
+        });
+    });
+    describe('encodings', () => {
+        test.each(['sqlite', 'merge'] as const)('should strip the byte order mark of a source with the %s engine', async (engine) => {
+            fs.writeFileSync('./output/files/bom-utf8.csv', '\ufeffid,name\n2,zoé\n1,andré\n');
+            await sort({
+                source: './output/files/bom-utf8.csv',
+                destination: `./output/files/bom-utf8.${engine}.csv`,
+                orderBy: ['id'],
+                engine,
+            });
+            expect(readAllText(`./output/files/bom-utf8.${engine}.csv`)).toBe('id,name\n1,"andré"\n2,"zoé"\n');
+        });
+        test.each(['sqlite', 'merge'] as const)('should transcode the latin1 and utf16 sources with the %s engine', async (engine) => {
+            fs.writeFileSync('./output/files/names.latin1.csv', Buffer.from('id,name\n2,zoé\n', 'latin1'));
+            fs.writeFileSync('./output/files/names.utf16le.csv', Buffer.from('\ufeffid,name\n3,łukasz\n1,andré\n', 'utf16le'));
+            fs.writeFileSync('./output/files/names.utf16be.csv', Buffer.from('id,name\n4,émile\n', 'utf16le').swap16());
+            await sort({
+                source: [
+                    { filename: './output/files/names.latin1.csv', encoding: 'latin1' },
+                    './output/files/names.utf16le.csv',
+                    { filename: './output/files/names.utf16be.csv', encoding: 'utf16be' },
+                ],
+                destination: `./output/files/names.${engine}.csv`,
+                orderBy: ['id'],
+                engine,
+            });
+            expect(readAllText(`./output/files/names.${engine}.csv`)).toBe('id,name\n1,"andré"\n2,"zoé"\n3,"łukasz"\n4,"émile"\n');
+        });
+        test('should encode the destination with a byte order mark', async () => {
+            const logs: string[] = [];
+            fs.writeFileSync('./output/files/names.csv', 'id,name\n2,zoé\n1,łukasz\n');
+            await sort({
+                source: './output/files/names.csv',
+                destination: { filename: './output/files/names.sorted.csv', encoding: 'utf16le', bom: true },
+                orderBy: ['id'],
+                logger: msg => logs.push(msg),
+            });
+            expect(fs.readFileSync('./output/files/names.sorted.csv')).toEqual(Buffer.from('\ufeffid,name\n1,"łukasz"\n2,"zoé"\n', 'utf16le'));
+            expect(logs).toContain('Encode the destination ./output/files/names.sorted.csv in utf16le');
+            await sort({
+                source: './output/files/names.csv',
+                destination: { filename: './output/files/names.sorted.csv.gz', encoding: 'latin1' },
+                orderBy: ['id'],
+                engine: 'merge',
+            });
+            expect(zlib.gunzipSync(fs.readFileSync('./output/files/names.sorted.csv.gz'))).toEqual(Buffer.from('id,name\n1,"?ukasz"\n2,"zoé"\n', 'latin1'));
+            await sort({
+                source: './output/files/names.csv',
+                destination: { filename: './output/files/names.bom.csv', bom: true },
+                orderBy: ['id'],
+            });
+            expect(readAllText('./output/files/names.bom.csv')).toBe('\ufeffid,name\n1,"łukasz"\n2,"zoé"\n');
+        });
+        test('should validate the encodings', async () => {
+            fs.writeFileSync('./output/files/names.csv', 'id,name\n2,zoé\n1,łukasz\n');
+            fs.writeFileSync('./output/files/teams.utf16le.csv', Buffer.from('\ufeffid,team\n1,a\n', 'utf16le'));
+            const options: SortOptions = {
+                source: './output/files/names.csv',
+                destination: './output/files/names.sorted.csv',
+                orderBy: ['id'],
+            };
+            await expect(sort({ ...options, destination: { filename: './output/files/names.sorted.csv', encoding: 'latin1', bom: true } })).rejects.toThrow('The latin1 encoding has no byte order mark!');
+            await expect(sort({ ...options, join: { source: './output/files/teams.utf16le.csv', keys: ['id'] } })).rejects.toThrow('The join source must be encoded in utf8!');
+            await expect(sort({ ...options, distinct: { uniqueBy: ['id'], duplicates: { filename: './output/files/names.duplicates.csv', bom: true } } }))
+                .rejects.toThrow('The duplicates file must be encoded in utf8 without byte order mark!');
+            await expect(sort({ ...options, destination: { filename: './output/files/names.sorted.csv', encoding: 'utf16le' }, skipIfSorted: true }))
+                .rejects.toThrow('The skipIfSorted option cannot be used with the options changing the rows or the columns!');
+        });
+    });
+    describe('partitions', () => {
+        beforeAll(() => {
+            fs.rmSync('./output/partitions', { recursive: true, force: true });
+            fs.mkdirSync('./output/partitions');
+        });
+        test.each(['sqlite', 'merge'] as const)('should split the rows by partition and row count with the %s engine', async (engine) => {
+            const result = await sort({
+                source: './tests/unordered-code-version.csv',
+                destination: `./output/partitions/${engine}-{Category}-{index}.csv`,
+                orderBy: ['code', { name: 'version', sortDirection: 'DESC' }],
+                partitionBy: 'Category',
+                maxRowsPerFile: 4,
+                engine,
+            });
+            expect(result.files).toEqual([
+                `./output/partitions/${engine}-fruit-1.csv`,
+                `./output/partitions/${engine}-fruit-2.csv`,
+                `./output/partitions/${engine}-meat-1.csv`,
+            ]);
+            expect(readAllText(`./output/partitions/${engine}-fruit-1.csv`)).toBe(`code,version,name,category,price
+abc,3,apple,fruit,0.22
+abc,2,apple,fruit,0.20
+abc,1,apple,fruit,0.21
+def,3,pear,fruit,0.33
+`);
+            expect(readAllText(`./output/partitions/${engine}-fruit-2.csv`)).toBe(`code,version,name,category,price
+def,2,pear,fruit,0.30
+def,1,pear,fruit,0.28
+`);
+            expect(readAllText(`./output/partitions/${engine}-meat-1.csv`)).toBe(`code,version,name,category,price
+ghi,3,beef,meat,5
+ghi,2,beef,meat,4
+ghi,1,beef,meat,3
+`);
+        });
+        test('should split the rows by row count only', async () => {
+            const logs: string[] = [];
+            const result = await sort({
+                source: './tests/unordered-id.csv',
+                destination: { filename: './output/partitions/id-{index}.tsv', delimiter: '\t' },
+                orderBy: ['id'],
+                maxRowsPerFile: 3,
+                logger: msg => logs.push(msg),
+            });
+            expect(result.files).toEqual(['./output/partitions/id-1.tsv', './output/partitions/id-2.tsv']);
+            expect(readAllText('./output/partitions/id-1.tsv')).toBe('id\tname\tage\n1\tjohn\t12\n2\tsarah\t1\n3\tmary\t2\n');
+            expect(readAllText('./output/partitions/id-2.tsv')).toBe('id\tname\tage\n5\tsally\t4\n6\tstan\t3\n7\tpaul\t33\n');
+            expect(logs).toContain('   create index DATA_IDX on DATA (id);');
+            expect(logs).toContain('   .output "|cat >&4"');
+        });
+        test('should sort by the partition column first', async () => {
+            const logs: string[] = [];
+            const result = await sort({
+                source: './tests/unordered-collation.csv',
+                destination: './output/partitions/file-{file}.csv',
+                orderBy: [{ name: 'file', collation: 'nocase' }],
+                partitionBy: 'file',
+                where: `id < 4`,
+                logger: msg => logs.push(msg),
+            });
+            expect(result.files).toEqual(['./output/partitions/file-File1.txt.csv', './output/partitions/file-file10.txt.csv', './output/partitions/file-file2.txt.csv']);
+            expect(logs).toContain('   create index DATA_IDX on DATA (file, file COLLATE NOCASE);');
+        });
+        test('should delete the files of an aborted sort', async () => {
+            const controller = new AbortController();
+            const lines = ['id,name'];
+            for (let i = 20000; i > 0; i--) {
+                lines.push(`${i},name ${i}`);
+            }
+            fs.writeFileSync('./output/partitions/abort.csv', lines.join('\n') + '\n');
+            const logs: string[] = [];
+            await expect(sort({
+                source: './output/partitions/abort.csv',
+                destination: './output/partitions/abort-{index}.csv',
+                orderBy: ['id'],
+                maxRowsPerFile: 1000,
+                engine: 'merge',
+                onProgress: event => {
+                    if (event.phase === 'export' && event.bytes) {
+                        controller.abort();
+                    }
+                },
+                signal: controller.signal,
+                logger: msg => logs.push(msg),
+            })).rejects.toThrow(AbortError);
+            expect(logs).toContain('Delete partial output ./output/partitions/abort-1.csv');
+            expect(fs.readdirSync('./output/partitions').filter(name => name.startsWith('abort-'))).toEqual([]);
+        });
+        test('should validate the partition options', async () => {
+            const options = (options: Partial<SortOptions>): SortOptions => ({
+                source: './tests/unordered-code-version.csv',
+                destination: './output/partitions/out-{index}.csv',
+                orderBy: ['code'],
+                ...options,
+            });
+            await expect(sort(options({ partitionBy: 'category' }))).rejects.toThrow('The destination filename must contain {category} when using the partitionBy option!');
+            await expect(sort(options({ destination: './output/partitions/out.csv', maxRowsPerFile: 10 }))).rejects.toThrow('The destination filename must contain {index} when using the maxRowsPerFile option!');
+            await expect(sort(options({ maxRowsPerFile: 0 }))).rejects.toThrow('The maximum number of rows per file must be a positive integer!');
+            await expect(sort(options({ destination: './output/partitions/out-{category}.csv', partitionBy: 'category', select: ['code'] }))).rejects.toThrow(`The partition column 'category' is not in the destination columns: (code)!`);
+            await expect(sortStream({
+                input: fs.createReadStream('./tests/unordered-code-version.csv'),
+                output: new Writable(),
+                orderBy: ['code'],
+                maxRowsPerFile: 10,
+            })).rejects.toThrow('The partitionBy and maxRowsPerFile options require a destination file!');
+        });
+    });
 });
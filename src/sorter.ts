@@ -1,6 +1,29 @@
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
-import { spawn } from 'node:child_process';
+import { ChildProcessWithoutNullStreams, spawn } from 'node:child_process';
+import { PassThrough, Readable, Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { AbortError, removePartialOutputs, throwIfAborted } from './abort';
+import { createSortKeys, hasSortKey, SortKey } from './collation';
+import { createFileReadStream, createFileWriteStream, getCompression, isCompressed } from './compression';
+import { CsvParser, readEncoding, readHeader } from './csv';
+import { DialectWriter, hasDialect, sniffDialect } from './dialect';
+import { isEncoded } from './encoding';
+import { findUnsortedRow, MergeSortEngine } from './merge';
+import { createFormatter, createNormalizer, createRecordNormalizer, normalizeSources, toSqlFormatter } from './format';
+import { getAggregateAlias, getAggregateType, toAggregateExpression } from './aggregate';
+import { compileFilter } from './filter';
+import { isJsonFormat, JsonWriter } from './json';
+import { waitForOutput } from './output';
+import { indexPlaceholder, PartitionWriter } from './partition';
+import { RowRejecter } from './reject';
+import { applyColumnTypes, defaultSampleSize, inferFileSchema } from './schema';
+import { findComputedColumn, sameColumnName, toColumnName } from './sql';
+import { ValidationError } from './validation';
+
+export { AbortError } from './abort';
+export { ValidationError } from './validation';
 
 /**
  * A logger callback
@@ -12,6 +35,55 @@ export type Logger = (message: string) => void;
  */
 export type Filename = string;
 
+/**
+ * A string literal type representing the compression of a file:
+ * - none: a plain text file
+ * - gzip: a file compressed with gzip, such as huge.csv.gz
+ * - brotli: a file compressed with brotli, such as huge.csv.br
+ */
+export type Compression = 'none' | 'gzip' | 'brotli';
+
+/**
+ * A string literal type representing the format of a file:
+ * - csv: comma separated values
+ * - tsv: tab separated values, quoted like the csv format
+ * - ndjson: a JSON object per line, indexed by column name
+ * - json: a JSON array of objects, indexed by column name
+ */
+export type FileFormat = 'csv' | 'tsv' | 'ndjson' | 'json';
+
+/**
+ * A string literal type representing the encoding of a file:
+ * - utf8: the unicode encoding with 1 to 4 bytes per character
+ * - utf16le: the unicode encoding with 2 or 4 bytes per character, in little endian order
+ * - utf16be: the unicode encoding with 2 or 4 bytes per character, in big endian order
+ * - latin1: the ISO-8859-1 encoding with 1 byte per character
+ */
+export type FileEncoding = 'utf8' | 'utf16le' | 'utf16be' | 'latin1';
+
+/**
+ * A string literal type representing which fields of the destination are quoted:
+ * - minimal: the fields containing the delimiter, the quote character, the escape character or a line break
+ * - all: every field
+ * - nonnumeric: every field, except the numbers of the numeric columns of the schema
+ * - none: no field, the special characters being preceded by the escape character
+ */
+export type Quoting = 'minimal' | 'all' | 'nonnumeric' | 'none';
+
+/**
+ * An object representing the dialect of a CSV file
+ */
+export type CsvDialect = {
+    /**
+     * The delimiter of the columns
+     */
+    delimiter: string;
+    /**
+     * The character quoting the fields
+     */
+    quoteChar: string;
+}
+
 /**
  * An object representing file options
  */
@@ -21,10 +93,77 @@ export type FileOptions = {
      */
     filename: Filename;
     /**
-     * An optional string representing the delimiter of the columns
-     * Defaults to comma.
+     * An optional string representing the delimiter of the columns, which must be a single character other than a double quote, a backslash and the line breaks.
+     * The auto delimiter of a source is detected from the head of the file, along with its quote character.
+     * Defaults to comma, or to tab with the tsv format.
      */
     delimiter?: string;
+    /**
+     * An optional string literal type representing the format of the file.
+     * The fields of the ndjson sources are flattened into columns, the nested fields being named by their dotted path such as user.id,
+     * and the columns are the names of the schema, or the fields of the first objects when there is no schema.
+     * Note that the json format is only supported by the destination, and the ndjson format by the sources and the destination.
+     * In both formats, the values of the numeric columns of the schema are written as JSON numbers.
+     * Defaults to csv.
+     */
+    format?: FileFormat;
+    /**
+     * An optional boolean indicating whether the first line of a source file is a header.
+     * The columns of a file without header are named by the schema, or col1, col2, ..., colN when there is no schema.
+     * Defaults to true.
+     */
+    hasHeader?: boolean;
+    /**
+     * An optional boolean indicating whether the header is written to the destination file, with the csv and tsv formats.
+     * Defaults to true.
+     */
+    writeHeader?: boolean;
+    /**
+     * An optional string literal type representing which fields of the destination are quoted, with the csv and tsv formats.
+     * When the quoting, quoteChar, escapeChar and lineEnding options are not set, the fields are quoted like the SQLite CSV exporter does.
+     * Defaults to minimal.
+     */
+    quoting?: Quoting;
+    /**
+     * An optional string representing the character quoting the fields of the file.
+     * The sources quoted with another character than a double quote are converted by the normalization.
+     * Defaults to a double quote.
+     */
+    quoteChar?: string;
+    /**
+     * An optional string representing the character escaping the quote character inside the quoted fields of the destination,
+     * and the special characters when the quoting is none.
+     * The quote character is doubled when there is no escape character.
+     */
+    escapeChar?: string;
+    /**
+     * An optional string representing the line ending of the destination, either \n or \r\n.
+     * Defaults to \n.
+     */
+    lineEnding?: '\n' | '\r\n';
+    /**
+     * An optional boolean indicating whether the empty values are written as null, with the ndjson and json formats.
+     * Defaults to false.
+     */
+    emptyAsNull?: boolean;
+    /**
+     * An optional string literal type representing the compression of the file.
+     * The data is decompressed as it is read and compressed as it is written, so the uncompressed file never touches the disk.
+     * Defaults to gzip for the .gz extension, brotli for the .br extension and none otherwise.
+     */
+    compression?: Compression;
+    /**
+     * An optional string literal type representing the encoding of the file.
+     * The encoding of a source is detected from its byte order mark, which is stripped, and the sources are transcoded to utf8 on import.
+     * The characters of the destination that cannot be encoded in latin1 are written as a question mark.
+     * Defaults to utf8.
+     */
+    encoding?: FileEncoding;
+    /**
+     * An optional boolean indicating whether a byte order mark is written at the start of the destination file.
+     * Defaults to false.
+     */
+    bom?: boolean;
 }
 
 /**
@@ -33,9 +172,16 @@ export type FileOptions = {
 export type ColumnName = string;
 
 /**
- * A string literal type representing the type of the column
+ * A string literal type representing the type of the column:
+ * - string: a text
+ * - number: an integer or a real number, depending on the value
+ * - integer: an integer number
+ * - real: a real number, written with a decimal part
+ * - date: a date, stored as YYYY-MM-DD
+ * - datetime: a date and a time, stored as YYYY-MM-DD HH:mm:ss
+ * - boolean: a boolean, stored as 1 or 0
  */
-export type ColumnType = 'string' | 'number';
+export type ColumnType = 'string' | 'number' | 'integer' | 'real' | 'date' | 'datetime' | 'boolean';
 
 /**
  * An object representing a schema column
@@ -49,6 +195,19 @@ export type SchemaColumn = {
      * An optional string literal type representing the type of the column
      */
     type?: ColumnType;
+    /**
+     * An optional string representing the format of the values in the source file:
+     * - date and datetime: a pattern made of the tokens YYYY, MM, M, DD, D, HH, H, mm, ss and SSS, such as DD/MM/YYYY
+     * - boolean: the true and false values separated by a slash, such as Y/N
+     * - integer and real: a pattern made of # and 0 with a grouping and a decimal separator, such as #,##0.00 or # ##0,00
+     * The values that don't match the format are kept as is.
+     */
+    format?: string;
+    /**
+     * An optional string representing the format of the values in the destination file, for the date, datetime and boolean types.
+     * Defaults to the format, or to the stored value when there is no format.
+     */
+    outputFormat?: string;
 }
 
 /**
@@ -56,6 +215,20 @@ export type SchemaColumn = {
  */
 export type SortDirection = 'ASC' | 'DESC';
 
+/**
+ * A string literal type representing how the values of a column are compared:
+ * - binary: by code point, such as B before a
+ * - nocase: like binary, but the ASCII letters are compared regardless of their case
+ * - natural: the numbers contained in the values are compared by their value, such as file2 before file10
+ * - locale: the values are compared regardless of their accents and case first, and then by code point
+ */
+export type Collation = 'binary' | 'nocase' | 'natural' | 'locale';
+
+/**
+ * A string literal type representing where the empty values are sorted
+ */
+export type NullsPosition = 'first' | 'last';
+
 /**
  * An object representing a sorted column
  */
@@ -68,6 +241,204 @@ export type SortedColumn = {
      * An optional string literal type representing the sort direction of the data
      */
     sortDirection?: SortDirection;
+    /**
+     * An optional string literal type representing how the values are compared.
+     * Defaults to binary.
+     */
+    collation?: Collation;
+    /**
+     * An optional string representing the locale used for converting the letters to lower case, with the locale collation.
+     * Defaults to the locale of the process.
+     */
+    locale?: string;
+    /**
+     * An optional string literal type representing where the empty values are sorted, whatever the sort direction.
+     * Defaults to the position of the empty values in the collation: first in ascending order, last in descending order.
+     */
+    nulls?: NullsPosition;
+}
+
+/**
+ * An object representing a column of the destination file: a column of the source file, optionally renamed,
+ * or a column computed by an SQL expression.
+ */
+export type SelectedColumn = {
+    /**
+     * An optional string representing the name of the column in the source file.
+     * Either the name or the expression must be specified.
+     */
+    name?: ColumnName;
+    /**
+     * An optional string representing the SQL expression computing the value of the column, such as price * qty.
+     * Note that the expression should be pure valid SQL and no validation/conversion is done by this library.
+     */
+    expression?: string;
+    /**
+     * An optional string representing the name of the column in the destination file, which is required for the computed columns.
+     * Defaults to the name of the column.
+     */
+    as?: ColumnName;
+}
+
+/**
+ * A string literal type representing the operator comparing a column to a value:
+ * - =, <>, <, <=, >, >=: compares the column to the value
+ * - like, not like: matches the column with a pattern, where % matches any text and _ any character
+ */
+export type FilterOperator = '=' | '<>' | '<' | '<=' | '>' | '>=' | 'like' | 'not like';
+
+/**
+ * A value compared to a column. The booleans are stored as 1 or 0.
+ */
+export type FilterValue = string | number | boolean;
+
+/**
+ * An object representing a condition on a column
+ */
+export type ColumnFilter = {
+    /**
+     * A required string representing the name of the column
+     */
+    column: ColumnName;
+    /**
+     * A required string literal type representing the operator
+     */
+    op: FilterOperator;
+    /**
+     * A required value compared to the column.
+     * The strings are converted to the storage of the column, according to its format.
+     */
+    value: FilterValue;
+} | {
+    /**
+     * A required string representing the name of the column
+     */
+    column: ColumnName;
+    /**
+     * A required string literal type representing whether the column must be in the values or not
+     */
+    op: 'in' | 'not in';
+    /**
+     * A required array of the values compared to the column
+     */
+    values: FilterValue[];
+} | {
+    /**
+     * A required string representing the name of the column
+     */
+    column: ColumnName;
+    /**
+     * A required string literal type representing whether the column must be empty or not
+     */
+    op: 'is empty' | 'is not empty';
+};
+
+/**
+ * An object representing the conditions for filtering the records: a condition on a column,
+ * or a list of conditions that must all be true (and) or of which one must be true (or).
+ */
+export type Filter = ColumnFilter | { and: Filter[] } | { or: Filter[] };
+
+/**
+ * A string literal type representing the function of an aggregate:
+ * - count: the number of rows, or the number of non empty values of a column
+ * - sum, avg, min, max: the sum, average, minimum or maximum of the non empty values of a column
+ * - count distinct: the number of different non empty values of a column
+ */
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max' | 'count distinct';
+
+/**
+ * An object representing an aggregate computed for each group of rows
+ */
+export type Aggregate = {
+    /**
+     * A required string literal type representing the function of the aggregate
+     */
+    function: AggregateFunction;
+    /**
+     * An optional string representing the aggregated column, which is required by all functions except count
+     */
+    column?: ColumnName;
+    /**
+     * An optional string representing the name of the aggregate in the destination file.
+     * Defaults to the function followed by the column, such as count or sum_amount.
+     */
+    as?: ColumnName;
+}
+
+/**
+ * A string literal type representing which row to keep among the rows sharing the same key:
+ * - first: the first row in input order
+ * - last: the last row in input order
+ * - min: the row with the minimum value of the tiebreaker column
+ * - max: the row with the maximum value of the tiebreaker column
+ */
+export type KeepPolicy = 'first' | 'last' | 'min' | 'max';
+
+/**
+ * An object representing the options for removing the duplicate rows
+ */
+export type DistinctOptions = {
+    /**
+     * A required array of ColumnName representing the key of a row
+     */
+    uniqueBy: ColumnName[];
+    /**
+     * An optional string literal type representing which row to keep among the duplicates.
+     * Defaults to first.
+     */
+    keep?: KeepPolicy;
+    /**
+     * An optional string representing the column used for selecting the row to keep, with the min and max policies.
+     */
+    tiebreaker?: ColumnName;
+    /**
+     * An optional value representing a file that will receive the discarded rows, either as a Filename or a FileOptions object
+     */
+    duplicates?: Filename | FileOptions;
+}
+
+/**
+ * A string literal type representing how the rows are matched with the rows of a join source:
+ * - inner: keeps the rows having a matching row, with the columns of both sources
+ * - left: keeps all the rows, the columns of the join source being empty when there is no matching row
+ * - anti: keeps the rows without matching row, with the columns of the source only
+ */
+export type JoinType = 'inner' | 'left' | 'anti';
+
+/**
+ * An object representing a second source joined to the rows, such as a lookup file
+ */
+export type JoinOptions = {
+    /**
+     * A required value representing the joined file, either as a Filename or a FileOptions object
+     */
+    source: Filename | FileOptions;
+    /**
+     * An optional array of either ColumnName or SchemaColumn objects representing the schema of the joined file.
+     * If not specified, the columns are read from its header and are of type string.
+     */
+    schema?: (ColumnName | SchemaColumn)[];
+    /**
+     * A required array of ColumnName representing the columns of the source matched with the join source
+     */
+    keys: ColumnName[];
+    /**
+     * An optional array of ColumnName representing the matching columns of the join source, in the same order as the keys.
+     * Defaults to the keys.
+     */
+    lookupKeys?: ColumnName[];
+    /**
+     * An optional string literal type representing how the rows are matched.
+     * Defaults to inner.
+     */
+    type?: JoinType;
+    /**
+     * An optional string prepended to the names of the columns of the join source,
+     * for telling them apart from the columns of the source.
+     * Defaults to an empty string.
+     */
+    prefix?: string;
 }
 
 /**
@@ -95,14 +466,76 @@ export interface SQLiteOptions {
     createIndex?: boolean;
 }
 
+/**
+ * A string literal type representing the engine used for sorting:
+ * - sqlite: imports the data into a temporary SQLite database, using the sqlite3 command
+ * - merge: sorts the data in pure Node, with an external merge sort
+ */
+export type EngineName = 'sqlite' | 'merge';
+
+/**
+ * An interface representing options for the merge engine
+ */
+export interface MergeSortOptions {
+    /**
+     * An optional number representing the amount of memory in bytes used for sorting the rows,
+     * before they are flushed to a temporary run file.
+     * Defaults to 64 MB.
+     */
+    memoryBudget?: number;
+    /**
+     * An optional string representing the folder of the temporary run files.
+     * Defaults to the temp folder of the OS.
+     */
+    tempDir?: string;
+}
+
+/**
+ * A string literal type representing the phase of a sort:
+ * - import: the rows of the sources are read
+ * - index: the index used for sorting is created
+ * - export: the sorted rows are written to the destination
+ */
+export type ProgressPhase = 'import' | 'index' | 'export';
+
+/**
+ * An object representing the progress of a sort
+ */
+export type ProgressEvent = {
+    /**
+     * A required string literal type representing the current phase
+     */
+    phase: ProgressPhase;
+    /**
+     * An optional number representing the bytes processed since the start of the phase, when measurable
+     */
+    bytes?: number;
+    /**
+     * An optional number representing the rows processed since the start of the phase, when measurable
+     */
+    rows?: number;
+}
+
+/**
+ * A string literal type representing what happens to a malformed row of the sources, having more fields than columns
+ * or not being a JSON object in the ndjson format:
+ * - fail: the sort fails
+ * - skip: the row is dropped
+ * - reject: the row is dropped, logged and written to the reject file
+ */
+export type MalformedRowPolicy = 'fail' | 'skip' | 'reject';
+
 /**
  * An interface representing sort options
  */
 export interface SortOptions {
     /**
-     * A required value representing the source file, either as a Filename or a FileOptions object
+     * A required value representing the source file, either as a Filename or a FileOptions object.
+     * It can also be a list of files that will be imported into the same table and sorted as one dataset.
+     * Filenames can contain the wildcards * and ? in their last segment, in order to match all the parts of a file.
+     * Note that all the parts must have the same header.
      */
-    source: Filename | FileOptions;
+    source: Filename | FileOptions | (Filename | FileOptions)[];
     /**
      * A required value representing the destination file, either as a Filename or a FileOptions object
      */
@@ -112,22 +545,71 @@ export interface SortOptions {
      * If not specified, it will assume that all columns are of type string.
      * Note that if is specified, it **must** match all columns of the source file, in the same order of appearance,
      * otherwise the SQLite import will be aborted. 
+     * It can also be 'infer', for inferring the type of each column from a sample of the first source file.
      */
-    schema?: (ColumnName | SchemaColumn)[];
+    schema?: (ColumnName | SchemaColumn)[] | 'infer';
+    /**
+     * An optional number representing the number of rows read for inferring the schema.
+     * Defaults to 1000.
+     */
+    sampleSize?: number;
     /**
-     * An optional array of ColumnName objects representing the columns to select.
+     * An optional object representing the type of some columns, indexed by column name.
+     * The other columns keep the type of the schema, or are strings when the schema is not specified,
+     * in which case the columns are read from the header of the first source file.
+     */
+    columnTypes?: Record<ColumnName, ColumnType>;
+    /**
+     * An optional array of either ColumnName or SelectedColumn objects representing the columns to select.
+     * The computed columns can be used in the orderBy and where options, by their alias.
      * If not specified, it will select all columns.
      */
-    select?: ColumnName[];
+    select?: (ColumnName | SelectedColumn)[];
     /**
      * A required array of either ColumnName or OrderedColumn objects representing the columns to order by
      */
     orderBy: (ColumnName | SortedColumn)[];
     /**
-     * An optional string representing the conditions for filtering the records
-     * Note that the where clause should be pure valid SQL and no validation/conversion is done by this library.
+     * An optional value for keeping only one row per key, either as an array of ColumnName or a DistinctOptions object.
      */
-    where?: string;
+    distinct?: ColumnName[] | DistinctOptions;
+    /**
+     * An optional object representing a second source joined to the rows.
+     * Its columns are appended to the selected columns and can be used in the select, orderBy and where options.
+     */
+    join?: JoinOptions;
+    /**
+     * An optional value representing the conditions for filtering the records, either as an SQL expression or a Filter object.
+     * Note that the SQL where clause should be pure valid SQL and no validation/conversion is done by this library,
+     * whereas the Filter object is compiled with quoted column names and escaped values.
+     */
+    where?: string | Filter;
+    /**
+     * An optional array of ColumnName representing the columns by which the rows are grouped.
+     * The destination file then contains a row per group, with the group columns followed by the aggregates.
+     */
+    groupBy?: ColumnName[];
+    /**
+     * An optional array of Aggregate objects representing the values computed for each group of rows,
+     * or for all the rows when the groupBy option is not specified.
+     * The aggregates can be used in the orderBy and having options, by their name.
+     */
+    aggregates?: Aggregate[];
+    /**
+     * An optional value representing the conditions for filtering the groups, either as an SQL expression or a Filter object.
+     */
+    having?: string | Filter;
+    /**
+     * An optional string representing the column by which the rows are split into several destination files.
+     * The destination filename is then a template containing the column name between braces, such as out-{country}.csv.
+     * Note that the rows are sorted by the partition column first, which also applies to the offset and limit options.
+     */
+    partitionBy?: ColumnName;
+    /**
+     * An optional number representing the maximum number of rows of each destination file.
+     * The destination filename is then a template containing {index}, such as out-{index}.csv, the index starting at 1.
+     */
+    maxRowsPerFile?: number;
     /**
      * An optional number representing the offset from which to start selecting the records
      */
@@ -136,42 +618,311 @@ export interface SortOptions {
      * An optional number representing the maximum number of records to select
      */
     limit?: number;
+    /**
+     * An optional boolean indicating whether the source is copied to the destination as it is, when its rows are already in order.
+     * The check reads the source once, which is much faster than a sort.
+     * Note that it requires a single source file and cannot be used with the options changing the rows or the columns.
+     * Defaults to false.
+     */
+    skipIfSorted?: boolean;
+    /**
+     * An optional string literal type representing what happens to the malformed rows of the sources.
+     * Note that the sources are then read by Node.js, so that the malformed rows are dropped before being imported.
+     * Defaults to fail.
+     */
+    onMalformedRow?: MalformedRowPolicy;
+    /**
+     * An optional value representing the CSV file receiving the rejected rows, either as a Filename or a FileOptions object,
+     * with the columns filename, line, reason and row. It requires the reject policy.
+     */
+    rejectFile?: Filename | FileOptions;
+    /**
+     * An optional number representing the maximum number of malformed rows, above which the sort fails.
+     * It requires the skip or reject policy.
+     */
+    maxRejects?: number;
+    /**
+     * An optional string literal type representing the engine used for sorting.
+     * Defaults to sqlite.
+     * Note that the merge engine does not support the where, distinct, join, groupBy, aggregates and having options, nor the computed columns.
+     */
+    engine?: EngineName;
     /**
      * An optional for customizing SQLite operations
      */
     sqlite?: SQLiteOptions;
+    /**
+     * An optional for customizing the merge engine
+     */
+    merge?: MergeSortOptions;
     /**
      * An optional function for logging commands sent to SQLite
      */
     logger?: Logger;
+    /**
+     * An optional function receiving the progress of the sort.
+     * It is called when a phase starts and then whenever the processed bytes or rows are known.
+     */
+    onProgress?: (event: ProgressEvent) => void;
+    /**
+     * An optional signal for cancelling the sort.
+     * The SQLite process is killed, the partial files are deleted and the sort is rejected with an AbortError.
+     */
+    signal?: AbortSignal;
 }
 
-interface SorterOptions {
-    source: FileOptions;
-    destination: FileOptions;
-    schema: SchemaColumn[];
-    select: ColumnName[];
-    orderBy: SortedColumn[];
-    where?: string;
-    offset?: number;
-    limit?: number;
-    sqlite: SQLiteOptions;
-    logger: Logger;
+/**
+ * An object representing an input stream options
+ */
+export type InputStreamOptions = {
+    /**
+     * A required stream providing the CSV data
+     */
+    stream: Readable;
+    /**
+     * An optional string representing the delimiter of the columns
+     * Defaults to comma.
+     */
+    delimiter?: string;
 }
 
-function convertFileOptions(file: Filename | FileOptions): FileOptions {
-    if (typeof file === 'string') {
-        return {
-            filename: file,            
-        };
-    }
-    return file;
+/**
+ * An object representing an output stream options
+ */
+export type OutputStreamOptions = {
+    /**
+     * A required stream receiving the sorted CSV data
+     */
+    stream: Writable;
+    /**
+     * An optional string representing the delimiter of the columns
+     * Defaults to comma.
+     */
+    delimiter?: string;
 }
 
-function convertSchema(orderBy: string | SchemaColumn): SchemaColumn {
-    if (typeof orderBy === 'string') {
-        return { name: orderBy };
-    }
+/**
+ * An interface representing stream sort options
+ */
+export interface StreamSortOptions extends Omit<SortOptions, 'source' | 'destination'> {
+    /**
+     * A required value representing the input stream, either as a Readable or an InputStreamOptions object
+     */
+    input: Readable | InputStreamOptions;
+    /**
+     * A required value representing the output stream, either as a Writable or an OutputStreamOptions object.
+     * Note that the stream will be ended once all the rows are written.
+     */
+    output: Writable | OutputStreamOptions;
+}
+
+/**
+ * An interface representing the options for sorting files to an output stream
+ */
+export interface OutputSortOptions extends Omit<SortOptions, 'destination'> {
+    /**
+     * A required value representing the output stream, either as a Writable or an OutputStreamOptions object.
+     * Note that the stream will be ended once all the rows are written.
+     */
+    output: Writable | OutputStreamOptions;
+}
+
+/**
+ * An interface representing the options for checking the order of a file
+ */
+export interface SortedCheckOptions extends Pick<SortOptions, 'source' | 'orderBy' | 'logger' | 'signal'> {
+    /**
+     * An optional array of either ColumnName or SchemaColumn objects representing the schema of the data.
+     * The values of the number columns are compared by their value.
+     * If not specified, it will assume that all columns are of type string.
+     */
+    schema?: (ColumnName | SchemaColumn)[];
+}
+
+/**
+ * An interface representing the result of an order check
+ */
+export interface SortedCheckResult {
+    /**
+     * A required boolean indicating whether all the rows are in order
+     */
+    sorted: boolean;
+    /**
+     * An optional string representing the file of the first row that is not in order
+     */
+    filename?: Filename;
+    /**
+     * An optional number representing the line of the first row that is not in order, the header being the line 1 when the file has a header.
+     * Note that a value spanning several lines counts as one line.
+     */
+    line?: number;
+}
+
+/**
+ * An interface representing the options for iterating sorted rows
+ */
+export interface RowsOptions extends Omit<SortOptions, 'destination'> {
+}
+
+/**
+ * A sorted row, indexed by column name.
+ * The values of the columns declared as number in the schema are converted to numbers.
+ */
+export type Row = Record<ColumnName, string | number>;
+
+/**
+ * An interface representing the result of a sort
+ */
+export interface SortResult {
+    /**
+     * An optional number representing the count of duplicate rows that were dropped, when the distinct option is used
+     */
+    duplicateCount?: number;
+    /**
+     * An optional array of SchemaColumn objects representing the resolved schema, when the schema option is 'infer'
+     * or when the columnTypes option is used
+     */
+    schema?: SchemaColumn[];
+    /**
+     * An optional array of Filename representing the created destination files in creation order,
+     * when the partitionBy or maxRowsPerFile option is used
+     */
+    files?: Filename[];
+    /**
+     * An optional boolean indicating that the source was already sorted and was copied to the destination,
+     * when the skipIfSorted option is used
+     */
+    skipped?: boolean;
+    /**
+     * An optional number representing the count of malformed rows that were dropped, when the onMalformedRow option is skip or reject
+     */
+    rejectedCount?: number;
+}
+
+interface SorterDistinctOptions {
+    uniqueBy: ColumnName[];
+    keep: KeepPolicy;
+    tiebreaker?: ColumnName;
+    duplicates?: FileOptions;
+}
+
+interface SorterJoinOptions {
+    source: FileOptions;
+    schema: SchemaColumn[];
+    keys: ColumnName[];
+    lookupKeys: ColumnName[];
+    type: JoinType;
+    prefix: string;
+    /**
+     * The prefixed columns of the join source, resolved before sorting
+     */
+    columns?: SchemaColumn[];
+}
+
+export interface SorterOptions {
+    sources: FileOptions[];
+    destination: FileOptions;
+    schema: SchemaColumn[];
+    inferSchema?: { sampleSize: number };
+    columnTypes?: Record<ColumnName, ColumnType>;
+    select: SelectedColumn[];
+    orderBy: SortedColumn[];
+    sortKeys?: SortKey[];
+    distinct?: SorterDistinctOptions;
+    join?: SorterJoinOptions;
+    where?: string;
+    filter?: Filter;
+    groupBy?: ColumnName[];
+    aggregates?: Aggregate[];
+    having?: string;
+    havingFilter?: Filter;
+    partitionBy?: ColumnName;
+    maxRowsPerFile?: number;
+    offset?: number;
+    limit?: number;
+    skipIfSorted?: boolean;
+    onMalformedRow?: MalformedRowPolicy;
+    rejectFile?: FileOptions;
+    maxRejects?: number;
+    engine?: EngineName;
+    sqlite: SQLiteOptions;
+    merge?: MergeSortOptions;
+    logger: Logger;
+    onProgress?: (event: ProgressEvent) => void;
+    signal?: AbortSignal;
+    input?: Readable;
+    output?: Writable;
+}
+
+/**
+ * An interface representing the streams exchanged with the SQLite process
+ */
+interface SqliteStreams {
+    /**
+     * A stream sent to the file descriptor 3 of the SQLite process
+     */
+    input?: Readable;
+    /**
+     * A stream receiving the file descriptor 4 of the SQLite process
+     */
+    output?: Writable;
+    /**
+     * A callback receiving the standard output of the SQLite process, instead of the logger
+     */
+    onOutput?: (text: string) => void;
+    /**
+     * A callback receiving the progress markers printed by the script and the bytes exchanged with the streams
+     */
+    onProgress?: (event: ProgressEvent) => void;
+    /**
+     * A signal killing the SQLite process when aborted
+     */
+    signal?: AbortSignal;
+}
+
+// The extra file descriptors of a child process are sockets that can't be opened by SQLite,
+// so they are relayed by a shell command.
+const streamInputFilename = '|cat <&3';
+const streamOutputFilename = '|cat >&4';
+
+function convertFileOptions(file: Filename | FileOptions): FileOptions {
+    if (typeof file === 'string') {
+        return {
+            filename: file,            
+        };
+    }
+    if (file.format === 'tsv' && file.delimiter === undefined) {
+        return { ...file, delimiter: '\t' };
+    }
+    return file;
+}
+
+const wildcards = /[*?]/;
+
+function expandGlob(file: FileOptions): FileOptions[] {
+    const folder = path.dirname(file.filename);
+    const name = path.basename(file.filename);
+    if (!wildcards.test(name) || !fs.existsSync(folder)) {
+        return [file];
+    }
+    const pattern = name.replace(/[.+^${}()|[\]\\]/g, '\\$&').replaceAll('*', '.*').replaceAll('?', '.');
+    const matcher = new RegExp(`^${pattern}$`);
+    const parts = fs.readdirSync(folder)
+        .filter(entry => matcher.test(entry))
+        .sort()
+        .map(entry => ({ ...file, filename: path.join(folder, entry) }));
+    return parts.length > 0 ? parts : [file];
+}
+
+function convertSources(source: Filename | FileOptions | (Filename | FileOptions)[]): FileOptions[] {
+    const files = Array.isArray(source) ? source : [source];
+    return files.map(convertFileOptions).flatMap(expandGlob);
+}
+
+function convertSchema(orderBy: string | SchemaColumn): SchemaColumn {
+    if (typeof orderBy === 'string') {
+        return { name: orderBy };
+    }
     return orderBy;
 }
 
@@ -182,6 +933,36 @@ function convertSelect(select: string | SchemaColumn): SchemaColumn {
     return select;
 }
 
+function convertSelectedColumn(select: ColumnName | SelectedColumn): SelectedColumn {
+    if (typeof select === 'string') {
+        return { name: select };
+    }
+    return select;
+}
+
+function convertDistinct(distinct: ColumnName[] | DistinctOptions): SorterDistinctOptions {
+    if (Array.isArray(distinct)) {
+        return { uniqueBy: distinct, keep: 'first' };
+    }
+    return {
+        uniqueBy: distinct.uniqueBy,
+        keep: distinct.keep ?? 'first',
+        tiebreaker: distinct.tiebreaker,
+        duplicates: distinct.duplicates ? convertFileOptions(distinct.duplicates) : undefined,
+    };
+}
+
+function convertJoin(join: JoinOptions): SorterJoinOptions {
+    return {
+        source: convertFileOptions(join.source),
+        schema: join.schema?.map(convertSelect) ?? [],
+        keys: join.keys,
+        lookupKeys: join.lookupKeys ?? join.keys,
+        type: join.type ?? 'inner',
+        prefix: join.prefix ?? '',
+    };
+}
+
 function NoopLogger(_message: string) {
 }
 
@@ -190,49 +971,175 @@ function defaultSqlLiteFilename(destinationFilename: string) {
     return path.join(info.dir, info.name + '.sqlite');
 }
 
+function temporarySqliteFilename() {
+    return path.join(os.tmpdir(), `huge-csv-sorter-${process.pid}-${Date.now()}.sqlite`);
+}
+
+function convertInputStream(input: Readable | InputStreamOptions): InputStreamOptions {
+    if (typeof (input as Readable).pipe === 'function') {
+        return { stream: input as Readable };
+    }
+    return input as InputStreamOptions;
+}
+
+function convertOutputStream(output: Writable | OutputStreamOptions): OutputStreamOptions {
+    if (typeof (output as Writable).write === 'function') {
+        return { stream: output as Writable };
+    }
+    return output as OutputStreamOptions;
+}
+
+function convertStreamOptions(options: StreamSortOptions): SorterOptions {
+    const input = convertInputStream(options.input);
+    const output = convertOutputStream(options.output);
+    const result = convertOptions({
+        ...options,
+        source: { filename: streamInputFilename, delimiter: input.delimiter },
+        destination: { filename: streamOutputFilename, delimiter: output.delimiter },
+        sqlite: options.sqlite ?? { filename: temporarySqliteFilename() },
+    });
+    return { ...result, input: input.stream, output: output.stream };
+}
+
+function convertOutputSortOptions(options: OutputSortOptions): SorterOptions {
+    const output = convertOutputStream(options.output);
+    const result = convertOptions({
+        ...options,
+        destination: { filename: streamOutputFilename, delimiter: output.delimiter },
+        sqlite: options.sqlite ?? { filename: temporarySqliteFilename() },
+    });
+    return { ...result, output: output.stream };
+}
+
+function convertRowsOptions(options: RowsOptions, output: Writable): SorterOptions {
+    const result = convertOptions({
+        ...options,
+        destination: streamOutputFilename,
+        sqlite: options.sqlite ?? { filename: temporarySqliteFilename() },
+    });
+    return { ...result, output };
+}
+
 function convertOptions(options: SortOptions): SorterOptions {
-    const source = convertFileOptions(options.source);
+    const sources = convertSources(options.source);
     const destination = convertFileOptions(options.destination);
     return {
-        source,
+        sources,
         destination,
-        schema: options.schema?.map(convertSelect) ?? [],
+        schema: options.schema === 'infer' ? [] : options.schema?.map(convertSelect) ?? [],
+        inferSchema: options.schema === 'infer' ? { sampleSize: options.sampleSize ?? defaultSampleSize } : undefined,
+        columnTypes: options.columnTypes,
         orderBy: options.orderBy?.map(convertSchema),
-        select: options.select ?? [],
-        where: options.where,
+        select: options.select?.map(convertSelectedColumn) ?? [],
+        distinct: options.distinct ? convertDistinct(options.distinct) : undefined,
+        join: options.join ? convertJoin(options.join) : undefined,
+        where: typeof options.where === 'string' ? options.where : undefined,
+        filter: typeof options.where === 'object' ? options.where : undefined,
+        groupBy: options.groupBy,
+        aggregates: options.aggregates,
+        having: typeof options.having === 'string' ? options.having : undefined,
+        havingFilter: typeof options.having === 'object' ? options.having : undefined,
+        partitionBy: options.partitionBy,
+        maxRowsPerFile: options.maxRowsPerFile,
         offset: options.offset,
         limit: options.limit,
+        skipIfSorted: options.skipIfSorted,
+        onMalformedRow: options.onMalformedRow,
+        rejectFile: options.rejectFile ? convertFileOptions(options.rejectFile) : undefined,
+        maxRejects: options.maxRejects,
+        engine: options.engine,
+        merge: options.merge,
         sqlite: options.sqlite ?? { filename: defaultSqlLiteFilename(destination.filename) },
         logger: options.logger ?? NoopLogger,
+        onProgress: options.onProgress,
+        signal: options.signal,
     };
 }
 
 const colMismatchWarning = /expected \d+ columns but found \d+ - extras ignored/;
 
-export function execSqlite(options: SorterOptions, script: string): Promise<number | null> {
+export function execSqlite(options: SorterOptions, script: string, streams: SqliteStreams = {}): Promise<number | null> {
     return new Promise<number | null>((resolve, reject) => {
         const errors: string[] = [];
-        const command = spawn(options.sqlite.cli ?? 'sqlite3', [options.sqlite.filename]);
-    
+        let streamError: Error | undefined;
+        const command = spawn(options.sqlite.cli ?? 'sqlite3', [options.sqlite.filename], {
+            stdio: ['pipe', 'pipe', 'pipe', streams.input ? 'pipe' : 'ignore', streams.output ? 'pipe' : 'ignore'],
+        }) as ChildProcessWithoutNullStreams;
+        const releaseStreams = () => {
+            command.stdio[3]?.destroy();
+            command.stdio[4]?.destroy();
+        };
+        const abort = (err: Error) => {
+            streamError = streamError ?? err;
+            command.kill();
+            releaseStreams();
+        };
+        const abortBySignal = () => abort(new AbortError());
+        streams.signal?.addEventListener('abort', abortBySignal, { once: true });
+        // the pipes are broken when SQLite exits early, which is already reported by its exit code.
+        const ignoreBrokenPipe = () => {};
+        command.stdin.on('error', ignoreBrokenPipe);
+        if (streams.input) {
+            const dataIn = command.stdio[3] as Writable;
+            dataIn.on('error', ignoreBrokenPipe);
+            streams.input.on('error', abort);
+            streams.input.pipe(dataIn);
+            if (streams.onProgress) {
+                countBytes(streams.input, bytes => streams.onProgress!({ phase: 'import', bytes }));
+            }
+        }
+        if (streams.output) {
+            const dataOut = command.stdio[4] as Readable;
+            streams.output.on('error', abort);
+            dataOut.pipe(streams.output);
+            if (streams.onProgress) {
+                countBytes(dataOut, bytes => streams.onProgress!({ phase: 'export', bytes }));
+            }
+        }
+
         command.stdout.on('data', output => {
             const txt: string = output.toString();
-            txt.split('\n').map((x) => `[SQLite] ${x}`).forEach(x => options.logger(x));
+            if (streams.onOutput) {
+                streams.onOutput(txt);
+                return;
+            }
+            let lines = txt.split('\n');
+            if (streams.onProgress) {
+                lines = reportProgressMarkers(lines, streams.onProgress);
+            }
+            lines.map((x) => `[SQLite] ${x}`).forEach(x => options.logger(x));
         });
+        let hasMismatch = false;
         command.stderr.on('data', output => {
             const lines: string[] = output.toString().split('\n');
             lines.map(x => `[SQLite] ${x}`).forEach(x => options.logger(x));
-            errors.push(...lines);
-            const hasMismatch = lines.some(line => colMismatchWarning.test(line));
-            if (hasMismatch) {
+            const mismatchIdx = hasMismatch ? -1 : lines.findIndex(line => colMismatchWarning.test(line));
+            if (mismatchIdx >= 0) {
+                // only the first mismatch is reported, since SQLite may write more lines before being killed
+                hasMismatch = true;
+                errors.push(...lines.slice(0, mismatchIdx + 1), '');
                 errors.push('SQLite command was killed because a column mismatch between schema and inputs was detected.')
                 command.kill();                
+            } else if (!hasMismatch) {
+                errors.push(...lines);
+            }
+        });
+        command.on('exit', function (code) {
+            if (code !== 0 || hasMismatch) {
+                releaseStreams();
             }
         });
         command.on('close', function (code) {
-            if (code === 0) {
-                resolve(code);
-            } else {
+            streams.signal?.removeEventListener('abort', abortBySignal);
+            if (streamError) {
+                reject(streamError);
+            } else if (code !== 0 || hasMismatch) {
+                // SQLite may exit successfully before being killed on a mismatch
                 reject(new Error(`SQLite error (Exit code = ${code}):\n${errors.slice(0, 20).join('\n')}`));
+            } else if (streams.output) {
+                waitForOutput(streams.output).then(() => resolve(code), reject);
+            } else {
+                resolve(code);
             }
           });
         command.on('error', function (err) {
@@ -243,18 +1150,41 @@ export function execSqlite(options: SorterOptions, script: string): Promise<numb
     });
 }
 
-const idValidator = /^[A-Za-z_]([A-Za-z0-9_])*$/;
+function countBytes(stream: Readable, onBytes: (bytes: number) => void) {
+    let bytes = 0;
+    stream.on('data', (chunk: Buffer | string) => {
+        bytes += Buffer.byteLength(chunk);
+        onBytes(bytes);
+    });
+}
 
-function isValidIdentifier(id : string) : boolean {
-    return idValidator.test(id);
+// the markers are printed by the script, or selected in csv mode (with CRLF line endings) when they report a row count.
+const progressMarker = /^"?@@progress (import|index|export)(?: (\d+))?"?\r?$/;
+
+function progressCommand(phase: ProgressPhase): string {
+    return `.print @@progress ${phase}`;
 }
 
-function toColumnName(name: string) {
-    if (isValidIdentifier(name)) {
-        return name;
-    }
-    const escapedName = name.replaceAll('"', '""');
-    return `"${escapedName}"`;
+function reportProgressMarkers(lines: string[], onProgress: (event: ProgressEvent) => void): string[] {
+    const remaining = lines.filter(line => {
+        const match = progressMarker.exec(line);
+        if (match) {
+            const event: ProgressEvent = { phase: match[1] as ProgressPhase };
+            if (match[2]) {
+                event.rows = parseInt(match[2]);
+            }
+            onProgress(event);
+        }
+        return !match;
+    });
+    // drops the empty line that follows the markers
+    return remaining.every(line => line === '') ? [] : remaining;
+}
+
+async function querySqlite(options: SorterOptions, sql: string): Promise<string> {
+    let output = '';
+    await execSqlite(options, `.mode list\n${sql}`, { onOutput: txt => output += txt });
+    return output.trim();
 }
 
 /**
@@ -270,101 +1200,829 @@ function toColumnName(name: string) {
  *    orderBy: ['id'],
  * });
  */
-export async function sort(options: SortOptions): Promise<void> {
+export async function sort(options: SortOptions): Promise<SortResult> {
     const opt = convertOptions(options);
     const sorter = new Sorter();
     return sorter.execute(opt);
 }
 
+/**
+ * Sorts the CSV data of a readable stream and writes the sorted rows to a writable stream.
+ * You must specify the input, output and orderBy options.
+ * The data is piped into the SQLite process without staging temporary CSV files,
+ * which requires a POSIX shell.
+ * @param options specifies the options for sorting a CSV stream.
+ * @example
+ * import fs from 'fs';
+ * import { sortStream } from 'huge-csv-sorter';
+ *
+ * sortStream({
+ *    input: fs.createReadStream('huge.csv'),
+ *    output: process.stdout,
+ *    orderBy: ['id'],
+ * });
+ */
+export async function sortStream(options: StreamSortOptions): Promise<SortResult> {
+    const opt = convertStreamOptions(options);
+    const sorter = new Sorter();
+    return sorter.execute(opt);
+}
+
+/**
+ * Sorts existing CSV files and writes the sorted rows to a writable stream, instead of a destination file.
+ * You must specify the source, output and orderBy options.
+ * @param options specifies the options for sorting CSV files to a stream.
+ * @example
+ * import { sortToStream } from 'huge-csv-sorter';
+ *
+ * sortToStream({
+ *    source: 'huge.csv',
+ *    output: process.stdout,
+ *    orderBy: ['id'],
+ * });
+ */
+export async function sortToStream(options: OutputSortOptions): Promise<SortResult> {
+    const opt = convertOutputSortOptions(options);
+    const sorter = new Sorter();
+    return sorter.execute(opt);
+}
+
+const numberTypes: (ColumnType | undefined)[] = ['number', 'integer', 'real'];
+
+/**
+ * Returns the types of the columns of the destination, indexed by their lower case name.
+ * The computed columns have no type.
+ */
+function getColumnTypes(options: SorterOptions): Map<string, ColumnType | undefined> {
+    const types = new Map<string, ColumnType | undefined>();
+    options.schema.forEach(col => types.set(col.name.toLowerCase(), col.type));
+    options.join?.columns?.forEach(col => types.set(col.name.toLowerCase(), col.type));
+    options.select.filter(col => col.as).forEach(col => types.set(col.as!.toLowerCase(), col.name !== undefined ? types.get(col.name.toLowerCase()) : undefined));
+    options.aggregates?.forEach(agg => types.set(getAggregateAlias(agg).toLowerCase(), getAggregateType(agg, options.schema)));
+    return types;
+}
+
+/**
+ * Sorts an existing CSV file and returns the sorted rows as an async iterable, instead of writing a destination file.
+ * The rows are streamed from the SQLite process and the temporary database is deleted
+ * once the iteration completes, even if it is interrupted.
+ * @param options specifies the options for sorting a CSV file.
+ * @example
+ * import { sortedRows } from 'huge-csv-sorter';
+ *
+ * for await (const row of sortedRows({ source: 'huge.csv', orderBy: ['id'] })) {
+ *    console.log(row.id);
+ * }
+ */
+export async function* sortedRows(options: RowsOptions): AsyncGenerator<Row, void, undefined> {
+    const output = new PassThrough();
+    output.setEncoding('utf8');
+    const opt = convertRowsOptions(options, output);
+    const parser = new CsvParser();
+    let header: ColumnName[] | undefined;
+    let types = new Map<string, ColumnType | undefined>();
+    let completed = false;
+    const toRow = (record: string[]): Row => {
+        const row: Row = {};
+        header!.forEach((name, idx) => {
+            const value = record[idx];
+            row[name] = numberTypes.includes(types.get(name.toLowerCase())) && value !== '' && !isNaN(Number(value)) ? Number(value) : value;
+        });
+        return row;
+    };
+    const execution = new Sorter().execute(opt);
+    execution.catch(err => output.destroy(err));
+    try {
+        for await (const chunk of output.iterator({ destroyOnReturn: false })) {
+            for (const record of parser.push(chunk)) {
+                if (header) {
+                    yield toRow(record);
+                } else {
+                    header = record;
+                    // the schema is known once the sort has started, since it can be inferred
+                    types = getColumnTypes(opt);
+                }
+            }
+        }
+        await execution;
+        completed = true;
+    } finally {
+        if (!completed) {
+            // stops the SQLite process when the consumer breaks out early
+            output.destroy(new Error('The iteration of the sorted rows was interrupted'));
+            await execution.catch(() => {});
+        }
+    }
+}
+
+/**
+ * Checks whether the rows of a CSV file are in the order of the orderBy option, by reading the file once.
+ * The values are compared the same way as when they are sorted, so a sorted file is always in order.
+ * The rows with the same keys are in order, whatever their position.
+ * @param options specifies the file, the columns to order by and the schema.
+ * @example
+ * import { isSorted } from 'huge-csv-sorter';
+ *
+ * const result = await isSorted({ source: 'huge.csv', orderBy: ['id'] });
+ * if (!result.sorted) {
+ *    console.log(`Line ${result.line} is not in order`);
+ * }
+ */
+export async function isSorted(options: SortedCheckOptions): Promise<SortedCheckResult> {
+    const opt = convertOptions({ ...options, destination: streamOutputFilename });
+    const sorter = new Sorter();
+    return sorter.check(opt);
+}
+
+/**
+ * Infers the schema of a CSV file from its header and a sample of its rows, the same way as the 'infer' schema option.
+ * A column is a number when all its non empty sampled values are numbers, otherwise it is a string.
+ * The result can be persisted, reviewed and then passed as the schema option.
+ * @param source the file to sample, either as a Filename or a FileOptions object
+ * @param sampleSize the maximum number of rows to read. Defaults to 1000.
+ * @example
+ * import { inferSchema } from 'huge-csv-sorter';
+ *
+ * const schema = inferSchema('huge.csv');
+ */
+export function inferSchema(source: Filename | FileOptions, sampleSize: number = defaultSampleSize): SchemaColumn[] {
+    const file = convertFileOptions(source);
+    validateFileExists(file.filename);
+    return inferFileSchema(file.delimiter === 'auto' ? { ...file, ...sniffDialect(file) } : file, sampleSize);
+}
+
+/**
+ * Detects the delimiter and the quote character of a CSV file from a sample of its head, the same way as the auto delimiter.
+ * The delimiter is either a comma, a semicolon, a pipe or a tab, and the quote character either a double quote or a single quote.
+ * @param source the file to sample, either as a Filename or a FileOptions object
+ * @example
+ * import { detectDialect } from 'huge-csv-sorter';
+ *
+ * const { delimiter, quoteChar } = detectDialect('export.csv');
+ */
+export function detectDialect(source: Filename | FileOptions): CsvDialect {
+    const file = convertFileOptions(source);
+    validateFileExists(file.filename);
+    return sniffDialect(file);
+}
+
+/**
+ * An interface representing an engine that sorts the rows described by the sorter options
+ */
+export interface SortEngine {
+    execute(options: SorterOptions): Promise<SortResult>;
+}
+
 export class Sorter {
-    async execute(options: SorterOptions) {
+    async execute(options: SorterOptions): Promise<SortResult> {
+        throwIfAborted(options.signal);
         this.validate(options);
-        const script = this.generateScript(options);
+        const resolveSchema = options.inferSchema || options.columnTypes;
+        if (resolveSchema) {
+            this.resolveSchema(options);
+        }
+        if (options.skipIfSorted) {
+            const check = await this.checkOrder(options);
+            if (check.sorted) {
+                await this.copySource(options);
+                return resolveSchema ? { skipped: true, schema: options.schema } : { skipped: true };
+            }
+        }
+        if (options.join) {
+            this.resolveJoin(options, options.join);
+        }
+        if (options.groupBy || options.aggregates) {
+            this.validateGroupColumns(options);
+        }
+        if (options.filter || options.havingFilter) {
+            this.compileFilters(options);
+        }
+        // the existing outputs are only deleted once all the options are validated
+        this.removeOutputs(options);
+        const partitions = options.partitionBy || options.maxRowsPerFile !== undefined ? this.createPartitions(options) : undefined;
+        const isStreamed = !partitions && !options.output && (isCompressed(options.destination) || isJsonFormat(options.destination) || isEncoded(options.destination) || hasDialect(options.destination));
+        const streamed = isStreamed ? this.streamDestination(options) : undefined;
+        const rejecter = this.normalizeSources(options);
+        const engine = this.createEngine(options);
+        let result: SortResult;
         try {
-            await this.executeScript(options, script);
-        } finally {
-            this.cleanup(options);
+            result = await engine.execute(options);
+        } catch (err) {
+            rejecter?.destroy();
+            if (partitions && options.signal?.aborted) {
+                partitions.removeFiles();
+            }
+            if (streamed && options.signal?.aborted) {
+                options.output!.destroy();
+                options.logger(`Delete partial output ${streamed.filename}`);
+                fs.rmSync(streamed.filename, { force: true });
+            }
+            throw err;
+        }
+        if (resolveSchema) {
+            result = { ...result, schema: options.schema };
         }
+        if (rejecter) {
+            result = { ...result, rejectedCount: rejecter.count };
+        }
+        return partitions ? { ...result, files: partitions.files } : result;
     }
 
-    validate(options: SorterOptions) {
-        validateFileExists(options.source.filename);
-        validateFolderExists(options.destination.filename);
-        if (options.sqlite) {
-            validateFolderExists(options.sqlite.filename);
+    createPartitions(options: SorterOptions): PartitionWriter {
+        const { filename, delimiter } = options.destination;
+        const partitions = new PartitionWriter(options.destination, options.partitionBy, options.maxRowsPerFile, options.logger);
+        const first = options.orderBy[0];
+        if (options.partitionBy && (!sameColumnName(first.name, options.partitionBy) || (first.collation ?? 'binary') !== 'binary')) {
+            // the rows of a partition are sorted together, so that its files are written one after the other
+            options.orderBy = [{ name: options.partitionBy! }, ...options.orderBy];
+        }
+        // the sorted rows are streamed to the files
+        options.destination = { filename: streamOutputFilename, delimiter };
+        options.output = partitions;
+        return partitions;
+    }
+
+    streamDestination(options: SorterOptions): FileOptions {
+        const destination = options.destination;
+        // the sorted rows are streamed to the encoder, to the compressor and to the JSON or dialect writer
+        let output = createFileWriteStream(destination);
+        if (isEncoded(destination)) {
+            options.logger(`Encode the destination ${destination.filename} in ${destination.encoding ?? 'utf8'}`);
+        }
+        if (isCompressed(destination)) {
+            options.logger(`Compress the destination ${destination.filename} with ${getCompression(destination)}`);
+        }
+        if (isJsonFormat(destination)) {
+            options.logger(`Convert the destination ${destination.filename} to ${destination.format}`);
+            output = new JsonWriter(output, destination.format === 'json', getColumnTypes(options), destination.emptyAsNull === true);
         }
+        if (hasDialect(destination)) {
+            options.logger(`Format the destination ${destination.filename} with the ${destination.quoting ?? 'minimal'} quoting`);
+            output = new DialectWriter(output, destination, getColumnTypes(options));
+        }
+        // the JSON and dialect writers parse the rows written by the engines with the default dialect, including the header
+        const converted = isJsonFormat(destination) || hasDialect(destination);
+        options.destination = {
+            filename: streamOutputFilename,
+            delimiter: converted ? undefined : destination.delimiter,
+            writeHeader: converted ? undefined : destination.writeHeader,
+        };
+        options.output = output;
+        return destination;
+    }
+
+    async check(options: SorterOptions): Promise<SortedCheckResult> {
+        throwIfAborted(options.signal);
+        this.validateSources(options);
         if (options.orderBy.length === 0) {
-            throw new Error('You must provide an orderBy option to order the file!');
+            throw new ValidationError('You must provide an orderBy option to check the order of the file!');
+        }
+        return this.checkOrder(options);
+    }
+
+    async checkOrder(options: SorterOptions): Promise<SortedCheckResult> {
+        this.readSortKeySchema(options);
+        const normalizers = options.schema.map(createNormalizer);
+        const sortKeys = createSortKeys(options);
+        options.logger('Check the order of the sources');
+        const unsorted = await findUnsortedRow({ ...options, sortKeys }, createRecordNormalizer(options.schema.length, normalizers, sortKeys));
+        if (!unsorted) {
+            options.logger('The sources are sorted');
+            return { sorted: true };
+        }
+        const filename = options.sources[unsorted.source].filename;
+        options.logger(`Line ${unsorted.line} of ${filename} is not in order`);
+        return { sorted: false, filename, line: unsorted.line };
+    }
+
+    async copySource(options: SorterOptions) {
+        const source = options.sources[0];
+        const destination = options.destination;
+        options.logger(`Copy sorted source ${source.filename} to ${destination.filename}`);
+        if (getCompression(source) !== getCompression(destination)) {
+            // the data is decompressed and compressed again on the fly
+            await pipeline(createFileReadStream(source), createFileWriteStream(destination));
+            return;
+        }
+        // the destination is a copy-on-write clone of the source, when the file system supports it
+        fs.copyFileSync(source.filename, destination.filename, fs.constants.COPYFILE_FICLONE);
+    }
+
+    readHeaderlessSchema(options: SorterOptions) {
+        if (options.schema.length === 0 && options.sources[0].hasHeader === false) {
+            // SQLite creates the table from the schema, since the source has no header line
+            options.schema = readHeader(options.sources[0]).map(name => ({ name }));
+        }
+    }
+
+    readSortKeySchema(options: SorterOptions) {
+        if (options.schema.length === 0 && options.orderBy.some(hasSortKey)) {
+            // the sort keys are appended after the columns, which must be known
+            const source = options.sources[0];
+            options.schema = readHeader(source).map(name => ({ name }));
+        }
+    }
+
+    normalizeSources(options: SorterOptions): RowRejecter | undefined {
+        this.readHeaderlessSchema(options);
+        this.readSortKeySchema(options);
+        const normalizers = options.schema.map(createNormalizer);
+        // validates the output formats before starting
+        options.schema.forEach(createFormatter);
+        const sortKeys = createSortKeys(options);
+        // the malformed rows are dropped by the normalization, since SQLite imports them without the extra fields
+        const policy = options.onMalformedRow ?? 'fail';
+        const rejecter = policy !== 'fail' ? new RowRejecter(policy, options.rejectFile, options.maxRejects, options.logger) : undefined;
+        // the compressed, ndjson, encoded and single quoted sources are converted by the normalization,
+        // since SQLite can only import plain utf8 CSV files quoted with double quotes
+        const encoded = (source: FileOptions) => (options.input ? source.encoding ?? 'utf8' : readEncoding(source)) !== 'utf8';
+        const converted = (source: FileOptions) => isCompressed(source) || source.format === 'ndjson' || encoded(source) || (source.quoteChar ?? '"') !== '"';
+        if (normalizers.some(normalizer => normalizer) || sortKeys.length > 0 || rejecter || options.sources.some(converted)) {
+            options.logger('Normalize the values of the sources');
+            options.input = normalizeSources(options, normalizers, sortKeys, rejecter);
+            options.sources = [{ filename: streamInputFilename }];
+        }
+        options.sortKeys = sortKeys;
+        return rejecter;
+    }
+
+    readColumns(options: SorterOptions): { columns: SchemaColumn[], origin: string } {
+        const source = options.sources[0];
+        let columns = options.schema;
+        let origin = 'the schema';
+        if (columns.length === 0) {
+            columns = readHeader(source).map(name => ({ name }));
+            origin = `the header of '${source.filename}'`;
+        }
+        if (options.join) {
+            columns = [...columns, ...getJoinedColumns(options.join)];
+        }
+        return { columns, origin };
+    }
+
+    validateGroupColumns(options: SorterOptions) {
+        const { columns, origin } = this.readColumns(options);
+        const names = [
+            ...(options.groupBy ?? []).map(name => ({ name, option: 'groupBy' })),
+            ...(options.aggregates ?? []).filter(agg => agg.column !== undefined).map(agg => ({ name: agg.column!, option: `${agg.function} aggregate` })),
+        ];
+        const missing = names.find(({ name }) => !columns.some(col => sameColumnName(col.name, name)));
+        if (missing) {
+            throw new ValidationError(`Column '${missing.name}' of the ${missing.option} is not in ${origin}: (${columns.map(col => col.name).join(', ')})!`);
+        }
+    }
+
+    compileFilters(options: SorterOptions) {
+        const { columns, origin } = this.readColumns(options);
+        if (options.filter) {
+            options.where = compileFilter(options.filter, columns, origin, options.select);
+        }
+        if (options.havingFilter) {
+            // the aggregates are filtered by their expression, like the computed columns
+            const aggregates = (options.aggregates ?? []).map(agg => ({ expression: toAggregateExpression(agg), as: getAggregateAlias(agg) }));
+            options.having = compileFilter(options.havingFilter, columns, origin, aggregates);
+        }
+    }
+
+    resolveJoin(options: SorterOptions, join: SorterJoinOptions) {
+        let columns = join.schema;
+        let origin = 'the schema of the join';
+        if (columns.length === 0) {
+            columns = readHeader(join.source).map(name => ({ name }));
+            origin = `the header of '${join.source.filename}'`;
+        }
+        for (const key of join.lookupKeys) {
+            if (!columns.some(col => sameColumnName(col.name, key))) {
+                throw new ValidationError(`The lookup key '${key}' is not in ${origin}: (${columns.map(col => col.name).join(', ')})!`);
+            }
+        }
+        join.columns = columns.map(col => ({ ...col, name: join.prefix + col.name }));
+        join.lookupKeys = join.lookupKeys.map(key => join.prefix + key);
+        const source = options.sources[0];
+        let sourceColumns = options.schema.map(col => col.name.toLowerCase());
+        if (sourceColumns.length === 0 && !options.input) {
+            sourceColumns = readHeader(source).map(name => name.toLowerCase());
+        }
+        // the columns of both sources are referenced without qualifier, so their names must be distinct
+        const shared = isUsingJoin(join) ? join.lookupKeys.map(key => key.toLowerCase()) : [];
+        const duplicate = join.columns.find(col => !shared.includes(col.name.toLowerCase()) && sourceColumns.includes(col.name.toLowerCase()));
+        if (duplicate) {
+            throw new ValidationError(`The column '${duplicate.name}' of the join source is also a column of the source, use the prefix option for renaming the columns of the join source!`);
+        }
+    }
+
+    resolveSchema(options: SorterOptions) {
+        const source = options.sources[0];
+        if (options.inferSchema) {
+            options.schema = inferFileSchema(source, options.inferSchema.sampleSize);
+        }
+        if (options.columnTypes) {
+            if (options.schema.length > 0) {
+                options.schema = applyColumnTypes(options.schema, options.columnTypes, 'the schema');
+            } else {
+                const header = readHeader(source).map(name => ({ name }));
+                options.schema = applyColumnTypes(header, options.columnTypes, `the header of '${source.filename}'`);
+            }
         }
-        if (fs.existsSync(options.destination.filename)) {
+        options.logger(`Schema: ${options.schema.map(col => `${col.name} ${col.type ?? 'string'}`).join(', ')}`);
+    }
+
+    createEngine(options: SorterOptions): SortEngine {
+        if (options.engine === 'merge') {
+            return new MergeSortEngine();
+        }
+        return new SQLiteEngine();
+    }
+
+    validateSources(options: SorterOptions) {
+        if (options.sources.length === 0) {
+            throw new ValidationError('You must provide at least one source file!');
+        }
+        if (!options.input) {
+            options.sources.forEach(source => validateFileExists(source.filename));
+            options.sources = options.sources.map(source => source.delimiter === 'auto' ? this.detectDialect(source, options.logger) : source);
+            validateHeaders(options.sources);
+        } else if (options.sources.some(source => source.delimiter === 'auto')) {
+            throw new ValidationError('The delimiter cannot be detected from an input stream!');
+        }
+    }
+
+    detectDialect(source: FileOptions, logger: Logger): FileOptions {
+        const { delimiter, quoteChar } = sniffDialect(source);
+        logger(`Detect the delimiter ${JSON.stringify(delimiter)} and the quote character ${JSON.stringify(quoteChar)} of ${source.filename}`);
+        // the double quote is the quote character of SQLite, so it is left unset
+        return quoteChar === '"' ? { ...source, delimiter } : { ...source, delimiter, quoteChar };
+    }
+
+    removeOutputs(options: SorterOptions) {
+        if (!options.output && fs.existsSync(options.destination.filename)) {
             options.logger(`Delete destination ${options.destination.filename}`);
             fs.rmSync(options.destination.filename);
         }
+        const duplicates = options.distinct?.duplicates;
+        if (duplicates && fs.existsSync(duplicates.filename)) {
+            options.logger(`Delete duplicates ${duplicates.filename}`);
+            fs.rmSync(duplicates.filename);
+        }
+    }
+
+    validate(options: SorterOptions) {
+        this.validateSources(options);
+        for (const file of [...options.sources, options.join?.source, options.distinct?.duplicates, options.rejectFile]) {
+            if (file?.format === 'json') {
+                throw new ValidationError('The json format is only supported by the destination!');
+            }
+        }
+        for (const file of [options.join?.source, options.distinct?.duplicates, options.rejectFile]) {
+            if (file?.format === 'ndjson') {
+                throw new ValidationError('The ndjson format is only supported by the sources and the destination!');
+            }
+        }
+        for (const file of [...options.sources, options.destination, options.join?.source, options.distinct?.duplicates, options.rejectFile]) {
+            if (file?.encoding === 'latin1' && file.bom) {
+                throw new ValidationError('The latin1 encoding has no byte order mark!');
+            }
+        }
+        if (options.destination.writeHeader === false && isJsonFormat(options.destination)) {
+            throw new ValidationError('The writeHeader option is only supported by the csv and tsv formats!');
+        }
+        this.validateDialect(options);
+        if (!options.output) {
+            validateFolderExists(options.destination.filename);
+        }
+        if (options.orderBy.length === 0) {
+            throw new ValidationError('You must provide an orderBy option to order the file!');
+        }
+        if (options.offset && !options.limit) {
+            throw new ValidationError('You must also specify a limit when using an offset!');
+        }
+        this.validateMalformedRows(options);
+        for (const col of options.select) {
+            if ((col.name === undefined) === (col.expression === undefined)) {
+                throw new ValidationError('A selected column must have either a name or an expression!');
+            }
+            if (col.expression !== undefined && !col.as) {
+                throw new ValidationError(`The computed column '${col.expression}' must have an alias!`);
+            }
+        }
+        if (options.distinct) {
+            this.validateDistinct(options.distinct);
+        }
+        if (options.join) {
+            this.validateJoin(options.join);
+        }
+        if (options.inferSchema) {
+            if (options.input) {
+                throw new ValidationError('The schema cannot be inferred from an input stream!');
+            }
+            if (!(options.inferSchema.sampleSize > 0)) {
+                throw new ValidationError('The sample size must be a positive number!');
+            }
+        }
+        if (options.columnTypes && options.input && options.schema.length === 0) {
+            throw new ValidationError('The columnTypes option requires a schema when sorting an input stream!');
+        }
+        if ((options.filter || options.havingFilter) && options.input && options.schema.length === 0) {
+            throw new ValidationError('The where and having filters require a schema when sorting an input stream!');
+        }
+        if (options.partitionBy || options.maxRowsPerFile !== undefined) {
+            this.validatePartitions(options);
+        }
+        if (options.skipIfSorted) {
+            this.validateSkipIfSorted(options);
+        }
+        if (options.groupBy || options.aggregates) {
+            if (options.select.length > 0) {
+                throw new ValidationError('The select option cannot be used with the groupBy and aggregates options!');
+            }
+            // validates the aggregates before starting
+            options.aggregates?.forEach(toAggregateExpression);
+        } else if (options.having || options.havingFilter) {
+            throw new ValidationError('You must provide the groupBy or aggregates option when using a having filter!');
+        }
+        if (options.input && options.schema.length === 0 && options.orderBy.some(hasSortKey)) {
+            throw new ValidationError('The natural and locale collations require a schema when sorting an input stream!');
+        }
+    }
+
+    validatePartitions(options: SorterOptions) {
+        if (options.output) {
+            throw new ValidationError('The partitionBy and maxRowsPerFile options require a destination file!');
+        }
+        const template = options.destination.filename;
+        if (options.partitionBy && !template.includes(`{${options.partitionBy}}`)) {
+            throw new ValidationError(`The destination filename must contain {${options.partitionBy}} when using the partitionBy option!`);
+        }
+        if (isJsonFormat(options.destination)) {
+            throw new ValidationError('The partitionBy and maxRowsPerFile options require a csv or tsv destination!');
+        }
+        if (getCompression(options.destination) === 'brotli') {
+            // the rows of a partition can be appended to its file, which is only supported by gzip
+            throw new ValidationError('The partitions cannot be compressed with brotli!');
+        }
+        if (options.maxRowsPerFile !== undefined) {
+            if (!Number.isInteger(options.maxRowsPerFile) || options.maxRowsPerFile <= 0) {
+                throw new ValidationError('The maximum number of rows per file must be a positive integer!');
+            }
+            if (!template.includes(indexPlaceholder)) {
+                throw new ValidationError(`The destination filename must contain ${indexPlaceholder} when using the maxRowsPerFile option!`);
+            }
+        }
+    }
+
+    validateJoin(join: SorterJoinOptions) {
+        validateFileExists(join.source.filename);
+        if (isCompressed(join.source)) {
+            throw new ValidationError('The join source cannot be compressed!');
+        }
+        if (readEncoding(join.source) !== 'utf8') {
+            throw new ValidationError('The join source must be encoded in utf8!');
+        }
+        if (join.keys.length === 0) {
+            throw new ValidationError('You must provide the keys of the join!');
+        }
+        if (join.lookupKeys.length !== join.keys.length) {
+            throw new ValidationError('The join must have as many lookupKeys as keys!');
+        }
+        // the values of the join source are imported as they are
+        if (join.schema.some(col => col.format !== undefined || col.outputFormat !== undefined || col.type === 'boolean')) {
+            throw new ValidationError('The schema of the join source does not support the formats and the boolean type!');
+        }
+    }
+
+    validateDialect(options: SorterOptions) {
+        for (const file of [...options.sources, options.destination, options.join?.source, options.distinct?.duplicates, options.rejectFile]) {
+            if (file?.delimiter === 'auto') {
+                throw new ValidationError('The auto delimiter is only supported by the sources!');
+            }
+            // the delimiter is written in the double quotes of the .separator command
+            if (file?.delimiter !== undefined && (file.delimiter.length !== 1 || /["\\\r\n]/.test(file.delimiter))) {
+                throw new ValidationError(`The delimiter ${JSON.stringify(file.delimiter)} must be a single character other than a double quote, a backslash and the line breaks!`);
+            }
+        }
+        for (const file of options.sources) {
+            if (hasDialect({ ...file, quoteChar: undefined })) {
+                throw new ValidationError('The quoting, escapeChar and lineEnding options are only supported by the destination!');
+            }
+        }
+        for (const file of [options.join?.source, options.distinct?.duplicates, options.rejectFile]) {
+            if (file && hasDialect(file)) {
+                throw new ValidationError('The quoting, quoteChar, escapeChar and lineEnding options are only supported by the sources and the destination!');
+            }
+        }
+        const destination = options.destination;
+        if (hasDialect(destination) && (isJsonFormat(destination) || options.output || options.partitionBy || options.maxRowsPerFile !== undefined)) {
+            throw new ValidationError('The quoting, quoteChar, escapeChar and lineEnding options require a single csv or tsv destination file!');
+        }
+        for (const file of [...options.sources, destination]) {
+            const delimiter = file.delimiter ?? ',';
+            for (const char of [file.quoteChar, file.escapeChar]) {
+                if (char !== undefined && (char.length !== 1 || char === delimiter || char === '\r' || char === '\n')) {
+                    throw new ValidationError('The quoteChar and escapeChar options must be a single character, other than the delimiter and the line breaks!');
+                }
+            }
+        }
+        // without quotes, the special characters can only be escaped
+        if (destination.quoting === 'none' && destination.escapeChar === undefined) {
+            throw new ValidationError('The none quoting requires an escapeChar!');
+        }
+        if (destination.lineEnding !== undefined && destination.lineEnding !== '\n' && destination.lineEnding !== '\r\n') {
+            throw new ValidationError('The line ending must be either \\n or \\r\\n!');
+        }
+    }
+
+    validateMalformedRows(options: SorterOptions) {
+        const policy = options.onMalformedRow ?? 'fail';
+        if (options.rejectFile) {
+            if (policy !== 'reject') {
+                throw new ValidationError('The rejectFile option requires the reject policy of the onMalformedRow option!');
+            }
+            validateFolderExists(options.rejectFile.filename);
+        }
+        if (options.maxRejects !== undefined) {
+            if (policy === 'fail') {
+                throw new ValidationError('The maxRejects option requires the skip or reject policy of the onMalformedRow option!');
+            }
+            if (!Number.isInteger(options.maxRejects) || options.maxRejects < 0) {
+                throw new ValidationError('The maximum number of rejected rows must be a positive integer or zero!');
+            }
+        }
+    }
+
+    validateSkipIfSorted(options: SorterOptions) {
+        if (options.input || options.output || options.sources.length > 1 || options.partitionBy || options.maxRowsPerFile !== undefined) {
+            throw new ValidationError('The skipIfSorted option requires a single source file and a single destination file!');
+        }
+        // the source is copied as it is, so the sort must only change the order of the rows
+        const delimiterChanged = (options.sources[0].delimiter ?? ',') !== (options.destination.delimiter ?? ',');
+        const headerChanged = (options.sources[0].hasHeader !== false) !== (options.destination.writeHeader !== false);
+        const encodingChanged = readEncoding(options.sources[0]) !== 'utf8' || isEncoded(options.destination);
+        const quoteChanged = (options.sources[0].quoteChar ?? '"') !== '"' || hasDialect(options.destination);
+        const formatChanged = options.sources[0].format === 'ndjson' || isJsonFormat(options.destination) || headerChanged || encodingChanged || quoteChanged;
+        const outputFormatted = options.schema.some(col => col.outputFormat !== undefined) || formatChanged;
+        const rowsDropped = (options.onMalformedRow ?? 'fail') !== 'fail';
+        if (options.select.length > 0 || options.where || options.filter || options.distinct || options.join || options.groupBy || options.aggregates
+            || options.offset || options.limit || delimiterChanged || outputFormatted || rowsDropped) {
+            throw new ValidationError('The skipIfSorted option cannot be used with the options changing the rows or the columns!');
+        }
+    }
+
+    validateDistinct(distinct: SorterDistinctOptions) {
+        if (distinct.uniqueBy.length === 0) {
+            throw new ValidationError('You must provide the uniqueBy columns when removing duplicates!');
+        }
+        if ((distinct.keep === 'min' || distinct.keep === 'max') && !distinct.tiebreaker) {
+            throw new ValidationError(`You must provide a tiebreaker column when keeping the ${distinct.keep} row!`);
+        }
+        if (distinct.duplicates) {
+            if (isCompressed(distinct.duplicates)) {
+                throw new ValidationError('The duplicates file cannot be compressed!');
+            }
+            if (isEncoded(distinct.duplicates)) {
+                throw new ValidationError('The duplicates file must be encoded in utf8 without byte order mark!');
+            }
+            validateFolderExists(distinct.duplicates.filename);
+        }
+    }
+
+    /**
+     * Generates the SQLite script of the sort, like the SQLite engine.
+     * @param options the options of the sort
+     */
+    generateScript(options: SorterOptions): string {
+        return new SQLiteEngine().generateScript(options);
+    }
+
+    /**
+     * Executes a SQLite script, like the SQLite engine.
+     * @param options the options of the sort
+     * @param script the SQLite script
+     */
+    async executeScript(options: SorterOptions, script: string) {
+        await new SQLiteEngine().executeScript(options, script);
+    }
+
+    /**
+     * Deletes the SQLite database of the sort, unless it is kept, like the SQLite engine.
+     * @param options the options of the sort
+     */
+    cleanup(options: SorterOptions) {
+        new SQLiteEngine().cleanup(options);
+    }
+}
+
+/**
+ * A sort engine that imports the data into a temporary SQLite database, using the sqlite3 command
+ */
+export class SQLiteEngine implements SortEngine {
+    async execute(options: SorterOptions): Promise<SortResult> {
+        this.validate(options);
+        const script = this.generateScript(options);
+        try {
+            await this.executeScript(options, script);
+            return await this.collectResult(options);
+        } finally {
+            this.cleanup(options);
+        }
+    }
+
+    validate(options: SorterOptions) {
+        validateFolderExists(options.sqlite.filename);
         if (fs.existsSync(options.sqlite.filename)) {
             options.logger(`Delete SQLite db ${options.sqlite.filename}`);
             fs.rmSync(options.sqlite.filename);
         }
-        if (options.offset && !options.limit) {
-            throw new Error('You must also specify a limit when using an offset!');
-        }
     }
 
     generateScript(options: SorterOptions): string {
-        const indexedCols = options.orderBy.map(col => toColumnName(col.name)).join(', ');
-        const orderBy = options.orderBy.map(col => `${toColumnName(col.name)} ${col.sortDirection ?? ''}`.trim()).join(', ');
+        const grouped = options.groupBy !== undefined || options.aggregates !== undefined;
+        const lookupColumns = options.join ? getJoinedColumns(options.join) : [];
+        // only the leading columns of the source can be indexed, since the index does not cover the join source
+        const isLookupColumn = (name: ColumnName) => lookupColumns.some(col => sameColumnName(col.name, name));
+        const indexedCount = (names: ColumnName[]) => names.findIndex(isLookupColumn) < 0 ? names.length : names.findIndex(isLookupColumn);
+        // the groups are indexed instead of the sorted columns, which can be aggregates
+        const groupBy = options.groupBy ?? [];
+        const indexedCols = grouped
+            ? groupBy.slice(0, indexedCount(groupBy)).map(toColumnName).join(', ')
+            : this.generateOrderTerms(options, '', false, indexedCount(options.orderBy.map(col => col.name))).join(', ');
+        const formatters = this.getSqlFormatters(options);
+        // the formatted columns are aliased with the name of the stored columns, which must be qualified for sorting and grouping,
+        // as well as the columns of a joined source
+        const qualifier = formatters.size > 0 || options.join ? 'DATA.' : '';
+        const orderBy = this.generateOrderTerms(options, qualifier, true).join(', ');
         const lines: string[] = [];
+        if (options.onProgress) {
+            lines.push(progressCommand('import'));
+        }
 
-        // Optional schema
+        // Optional schema, followed by the hidden columns holding the sort keys
         if (options.schema.length > 0) {
-            lines.push('CREATE TABLE DATA(')
-            for (let i = 0; i < options.schema.length; i++) {
-                const col = options.schema[i];
-                const colType = col.type === 'number' ? 'NUMERIC' : 'TEXT';
-                let colDef = `  ${toColumnName(col.name)} ${colType}`;
-                if (i < options.schema.length - 1) {
-                    colDef += ',';
-                }
-                lines.push(colDef);
-            }
-            lines.push(');')
+            const columns: SchemaColumn[] = [...options.schema, ...(options.sortKeys ?? []).map(key => ({ name: key.name }))];
+            lines.push(...this.generateCreateTable('DATA', columns));
         }
 
-        // Import source file
+        // Import source files
         lines.push('.mode csv');
-        if (options.source.delimiter) {
-            if (options.source.delimiter === '\t') {
-                lines.push(`.separator "\t"`);
-            } else {
-                lines.push(`.separator "${options.source.delimiter}"`);
+        let separator = ',';
+        options.sources.forEach((source, idx) => {
+            const delimiter = source.delimiter ?? ',';
+            if (delimiter !== separator || (idx === 0 && source.delimiter)) {
+                lines.push(separatorCommand(delimiter));
+                separator = delimiter;
             }
+            // the table is created by the first import when there is no schema,
+            // so the header of the following parts must be skipped.
+            const skipFirstRow = source.hasHeader !== false && (options.schema.length > 0 || idx > 0) ? '--skip 1 ' : '';
+            lines.push(`.import ${skipFirstRow}"${source.filename}" DATA`);
+        });
+        if (options.join) {
+            lines.push(...this.generateJoinImport(options.join, separator));
+        }
+        if (options.onProgress) {
+            lines.push(`select '@@progress import ' || count(*) from DATA;`);
+        }
+
+        // Optional removal of duplicates
+        if (options.distinct) {
+            lines.push(...this.generateDistinctScript(options.distinct, this.selectColumns(options, formatters, [])));
         }
-        const skipFirstRow = options.schema.length > 0 ? '--skip 1 ' : '';
-        lines.push(`.import ${skipFirstRow}"${options.source.filename}" DATA`);
 
         // Optional index for sort
-        if (options.sqlite.createIndex !== false) {
+        if (options.sqlite.createIndex !== false && indexedCols) {
+            if (options.onProgress) {
+                lines.push(progressCommand('index'));
+            }
             lines.push(`create index DATA_IDX on DATA (${indexedCols});`);
         }
 
         // Export to destination file
+        if (options.onProgress) {
+            lines.push(progressCommand('export'));
+        }
         if (options.destination.delimiter) {
-            if (options.destination.delimiter === '\t') {
-                lines.push(`.separator "\t"`);
-            } else {
-                lines.push(`.separator "${options.destination.delimiter}"`);
-            }
-        } else if (options.source.delimiter) {
-            lines.push(`.separator ","`);
+            lines.push(separatorCommand(options.destination.delimiter));
+        } else if (options.sources.some(source => source.delimiter) || options.distinct?.duplicates || options.join?.source.delimiter) {
+            lines.push(separatorCommand(','));
         }
-        lines.push('.headers on');
+        lines.push(headersCommand(options.destination));
         lines.push(`.output "${options.destination.filename}"`);
-        let columns = '*';
-        if (options.select.length  > 0) {
-            columns = options.select.map(toColumnName).join(', ');
-        }
+        const columns = grouped ? this.groupColumns(options, formatters) : this.selectColumns(options, formatters, options.select, lookupColumns);
         let select = `select ${columns} from DATA`;
-        if (options.where) {
-            select += ` where ${options.where}`;
+        let where = options.where;
+        if (options.join?.type === 'anti') {
+            const antiJoin = `not exists (select 1 from LOOKUP where ${generateJoinConditions(options.join)})`;
+            where = where ? `${antiJoin} and (${where})` : antiJoin;
+        } else if (options.join) {
+            select += this.generateJoinClause(options.join);
+        }
+        if (where) {
+            select += ` where ${where}`;
+        }
+        if (options.groupBy?.length) {
+            select += ` group by ${options.groupBy.map(name => this.generateColumnReference(options, name, qualifier)).join(', ')}`;
+        }
+        if (options.having) {
+            select += ` having ${options.having}`;
         }
         select += ` order by ${orderBy}`;
         if (options.limit) {
@@ -380,31 +2038,242 @@ export class Sorter {
         return lines.join('\n');
     }
 
+    generateCreateTable(table: string, columns: SchemaColumn[]): string[] {
+        const lines = [`CREATE TABLE ${table}(`];
+        for (let i = 0; i < columns.length; i++) {
+            const col = columns[i];
+            const colType = sqliteTypes[col.type ?? 'string'];
+            let colDef = `  ${toColumnName(col.name)} ${colType}`;
+            if (i < columns.length - 1) {
+                colDef += ',';
+            }
+            lines.push(colDef);
+        }
+        lines.push(');');
+        return lines;
+    }
+
+    generateJoinImport(join: SorterJoinOptions, separator: string): string[] {
+        const lines = this.generateCreateTable('LOOKUP', join.columns!);
+        const delimiter = join.source.delimiter ?? ',';
+        if (delimiter !== separator) {
+            lines.push(separatorCommand(delimiter));
+        }
+        const skipFirstRow = join.source.hasHeader !== false ? '--skip 1 ' : '';
+        lines.push(`.import ${skipFirstRow}"${join.source.filename}" LOOKUP`);
+        // the join source is searched by its keys for each row
+        lines.push(`create index LOOKUP_IDX on LOOKUP (${join.lookupKeys.map(toColumnName).join(', ')});`);
+        return lines;
+    }
+
+    generateJoinClause(join: SorterJoinOptions): string {
+        const type = join.type === 'left' ? 'left join' : 'join';
+        if (isUsingJoin(join)) {
+            // the keys of the join source are merged with the keys of the source, so their names are not ambiguous
+            return ` ${type} LOOKUP using (${join.keys.map(toColumnName).join(', ')})`;
+        }
+        return ` ${type} LOOKUP on ${generateJoinConditions(join)}`;
+    }
+
+    generateColumnReference(options: SorterOptions, name: ColumnName, qualifier: string): string {
+        const lookup = options.join && getJoinedColumns(options.join).some(col => sameColumnName(col.name, name));
+        return `${lookup ? 'LOOKUP.' : qualifier}${toColumnName(name)}`;
+    }
+
+    generateOrderTerms(options: SorterOptions, qualifier: string, withDirection: boolean, count = options.orderBy.length): string[] {
+        return options.orderBy.slice(0, count).flatMap((col, idx) => {
+            const sortKey = options.sortKeys?.find(key => key.orderIndex === idx);
+            const aggregate = options.aggregates?.find(agg => sameColumnName(getAggregateAlias(agg), col.name));
+            const computed = findComputedColumn(options.select, col.name);
+            // the aggregates and the computed columns are sorted and indexed by their expression
+            let name = this.generateColumnReference(options, sortKey?.name ?? col.name, qualifier);
+            if (aggregate) {
+                name = toAggregateExpression(aggregate);
+            } else if (computed) {
+                name = `(${computed.expression})`;
+            }
+            const direction = withDirection && col.sortDirection ? ` ${col.sortDirection}` : '';
+            const collate = col.collation === 'nocase' ? ' COLLATE NOCASE' : '';
+            const terms = [`${name}${collate}${direction}`];
+            if (col.nulls) {
+                // the empty values are flagged with 1 or 0, so that they are sorted first or last in the given direction
+                const op = (col.nulls === 'last') === (col.sortDirection !== 'DESC') ? '=' : '<>';
+                terms.unshift(`coalesce(${name}, '') ${op} ''${direction}`);
+            }
+            return terms;
+        });
+    }
+
+    getSqlFormatters(options: SorterOptions): Map<string, string> {
+        const formatters = new Map<string, string>();
+        for (const col of options.schema) {
+            const formatter = toSqlFormatter(col, toColumnName(col.name));
+            if (formatter) {
+                // like SQLite, the column names are case insensitive
+                formatters.set(col.name.toLowerCase(), formatter);
+            }
+        }
+        return formatters;
+    }
+
+    selectColumns(options: SorterOptions, formatters: Map<string, string>, select: SelectedColumn[], lookupColumns: SchemaColumn[] = []): string {
+        if (select.length === 0) {
+            // the hidden columns holding the sort keys are not selected
+            if (formatters.size === 0 && !options.sortKeys?.length) {
+                return '*';
+            }
+            select = [...options.schema, ...lookupColumns].map(col => ({ name: col.name }));
+        }
+        return select.map(col => {
+            const alias = toColumnName(col.as ?? col.name!);
+            if (col.expression !== undefined) {
+                return `${col.expression} as ${alias}`;
+            }
+            const value = formatters.get(col.name!.toLowerCase()) ?? toColumnName(col.name!);
+            return value === alias ? value : `${value} as ${alias}`;
+        }).join(', ');
+    }
+
+    groupColumns(options: SorterOptions, formatters: Map<string, string>): string {
+        const columns: string[] = [];
+        if (options.groupBy?.length) {
+            columns.push(this.selectColumns(options, formatters, options.groupBy.map(name => ({ name }))));
+        }
+        for (const aggregate of options.aggregates ?? []) {
+            const expression = toAggregateExpression(aggregate);
+            // the min and max values are formatted like the values of their column
+            const column = options.schema.find(col => sameColumnName(col.name, aggregate.column));
+            const isExtremum = aggregate.function === 'min' || aggregate.function === 'max';
+            const formatter = column && isExtremum ? toSqlFormatter(column, expression) : undefined;
+            columns.push(`${formatter ?? expression} as ${toColumnName(getAggregateAlias(aggregate))}`);
+        }
+        return columns.join(', ');
+    }
+
+    generateDistinctScript(distinct: SorterDistinctOptions, columns: string): string[] {
+        const keys = distinct.uniqueBy.map(toColumnName).join(', ');
+        let keptRows = `select ${distinct.keep === 'last' ? 'max' : 'min'}(rowid) from DATA group by ${keys}`;
+        if (distinct.keep === 'min' || distinct.keep === 'max') {
+            // SQLite takes the bare columns from the row holding the min or max value of the aggregate
+            keptRows = `select id from (select rowid as id, ${distinct.keep}(${toColumnName(distinct.tiebreaker!)}) from DATA group by ${keys})`;
+        }
+        const lines: string[] = [];
+        lines.push(`create table DATA_DUPLICATES as select rowid as id from DATA where rowid not in (${keptRows});`);
+        if (distinct.duplicates) {
+            lines.push(separatorCommand(distinct.duplicates.delimiter ?? ','));
+            lines.push(headersCommand(distinct.duplicates));
+            lines.push(`.output "${distinct.duplicates.filename}"`);
+            lines.push(`select ${columns} from DATA where rowid in (select id from DATA_DUPLICATES) order by rowid;`);
+            lines.push('.output stdout');
+        }
+        lines.push('delete from DATA where rowid in (select id from DATA_DUPLICATES);');
+        return lines;
+    }
+
+    async collectResult(options: SorterOptions): Promise<SortResult> {
+        const result: SortResult = {};
+        if (options.distinct) {
+            result.duplicateCount = parseInt(await querySqlite(options, 'select count(*) from DATA_DUPLICATES;'));
+        }
+        return result;
+    }
+
     async executeScript(options: SorterOptions, script: string) {
         options.logger(`Open DB ${options.sqlite.filename}`);
         options.logger(`Execute script:`);
         script.split('\n').map(x => `   ${x}`).forEach(x => options.logger(x));
-        await execSqlite(options, script);    
+        await execSqlite(options, script, {
+            input: options.input,
+            output: options.output,
+            onProgress: options.onProgress,
+            signal: options.signal,
+        });
     }
 
     cleanup(options: SorterOptions) {
         options.logger('Cleanup');
-        if (options.sqlite.keepDB !== true) {
+        const aborted = options.signal?.aborted === true;
+        if (aborted) {
+            removePartialOutputs(options);
+        }
+        // the database of an aborted sort is incomplete, so it is never kept
+        if (options.sqlite.keepDB !== true || aborted) {
             options.logger(`Delete DB ${options.sqlite.filename}`);
-            fs.rmSync(options.sqlite.filename);
+            // a killed SQLite process leaves its rollback journal or write-ahead log
+            for (const suffix of ['', '-journal', '-wal']) {
+                fs.rmSync(options.sqlite.filename + suffix, { force: true });
+            }
+        }
+    }
+}
+
+const sqliteTypes: Record<ColumnType, string> = {
+    string: 'TEXT',
+    number: 'NUMERIC',
+    integer: 'INTEGER',
+    real: 'REAL',
+    date: 'TEXT',
+    datetime: 'TEXT',
+    boolean: 'INTEGER',
+};
+
+/**
+ * Indicates whether the keys of the join source have the same names as the keys of the source.
+ */
+function isUsingJoin(join: SorterJoinOptions): boolean {
+    return join.keys.every((key, idx) => sameColumnName(key, join.lookupKeys[idx]));
+}
+
+/**
+ * Returns the columns of the join source that are appended to the columns of the source,
+ * which are the same as the columns selected by *.
+ */
+function getJoinedColumns(join: SorterJoinOptions): SchemaColumn[] {
+    if (join.type === 'anti') {
+        return [];
+    }
+    const keys = isUsingJoin(join) ? join.lookupKeys.map(key => key.toLowerCase()) : [];
+    return join.columns!.filter(col => !keys.includes(col.name.toLowerCase()));
+}
+
+function generateJoinConditions(join: SorterJoinOptions): string {
+    return join.keys.map((key, idx) => `DATA.${toColumnName(key)} = LOOKUP.${toColumnName(join.lookupKeys[idx])}`).join(' and ');
+}
+
+function separatorCommand(delimiter: string): string {
+    if (delimiter === '\t') {
+        return `.separator "\t"`;
+    }
+    return `.separator "${delimiter}"`;
+}
+
+function headersCommand(file: FileOptions): string {
+    return file.writeHeader === false ? '.headers off' : '.headers on';
+}
+
+function validateHeaders(sources: FileOptions[]): void {
+    if (sources.length < 2) {
+        return;
+    }
+    const [first, ...parts] = sources;
+    const expected = readHeader(first);
+    for (const part of parts) {
+        const header = readHeader(part);
+        if (header.join('\n') !== expected.join('\n')) {
+            throw new ValidationError(`Header of part '${part.filename}' does not match the header of '${first.filename}': expected (${expected.join(', ')}) but found (${header.join(', ')})!`);
         }
     }
 }
 
 function validateFileExists(filename: string): void {
     if(!fs.existsSync(filename)) {
-        throw new Error(`File '${filename}' does not exist!`);
+        throw new ValidationError(`File '${filename}' does not exist!`);
     }
 }
 
 function validateFolderExists(filename: string): void {
     const folder = path.dirname(filename);
     if (folder && !fs.existsSync(folder)) {
-        throw new Error(`Folder '${folder}' does not exist!`);
+        throw new ValidationError(`Folder '${folder}' does not exist!`);
     }
 }
\ No newline at end of file
@@ -0,0 +1,45 @@
+import type { ColumnName, SelectedColumn } from './sorter';
+
+const idValidator = /^[A-Za-z_]([A-Za-z0-9_])*$/;
+
+function isValidIdentifier(id : string) : boolean {
+    return idValidator.test(id);
+}
+
+/**
+ * Converts a column name to an SQL identifier, quoting it when it is not a valid identifier.
+ * @param name the name of the column
+ */
+export function toColumnName(name: string) {
+    if (isValidIdentifier(name)) {
+        return name;
+    }
+    const escapedName = name.replaceAll('"', '""');
+    return `"${escapedName}"`;
+}
+
+/**
+ * Converts a text to an SQL string literal, escaping its quotes.
+ * @param text the text to convert
+ */
+export function toSqlLiteral(text: string): string {
+    return `'${text.replaceAll(`'`, `''`)}'`;
+}
+
+/**
+ * Indicates whether two column names are the same, ignoring their case like SQLite.
+ * @param name the name of the column
+ * @param other the other name, if any
+ */
+export function sameColumnName(name: ColumnName, other: ColumnName | undefined): boolean {
+    return other !== undefined && name.toLowerCase() === other.toLowerCase();
+}
+
+/**
+ * Finds the computed column of the select option having the given alias.
+ * @param select the selected columns
+ * @param name the name of the column
+ */
+export function findComputedColumn(select: SelectedColumn[], name: ColumnName): SelectedColumn | undefined {
+    return select.find(col => col.expression !== undefined && sameColumnName(col.as!, name));
+}
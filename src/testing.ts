@@ -0,0 +1,21 @@
+type WriteCallback = (err?: Error | null) => void;
+
+/**
+ * Runs an action while capturing the text written to the standard output, which is restored afterwards.
+ * The write callbacks are called, as if the text was flushed.
+ * @param action the action writing to the standard output
+ */
+export async function captureStdout<T>(action: () => Promise<T>): Promise<{ result: T, text: string }> {
+    let text = '';
+    const write = jest.spyOn(process.stdout, 'write').mockImplementation((chunk: string | Uint8Array, encoding?: BufferEncoding | WriteCallback, callback?: WriteCallback) => {
+        text += Buffer.from(chunk).toString();
+        (typeof encoding === 'function' ? encoding : callback)?.();
+        return true;
+    });
+    try {
+        const result = await action();
+        return { result, text };
+    } finally {
+        write.mockRestore();
+    }
+}
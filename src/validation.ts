@@ -0,0 +1,10 @@
+/**
+ * The error thrown when the options of a sort are invalid, such as an unknown column or an unsupported combination of options.
+ * It can be distinguished from the errors raised while reading the sources with instanceof or with its name.
+ */
+export class ValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ValidationError';
+    }
+}